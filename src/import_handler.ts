@@ -28,8 +28,9 @@ import * as path from 'path';
 const CH_PERIOD = 0x2e as const;
 const CH_AT = 0x40 as const;
 
-const baseUrl = path.dirname(require.main.filename);
-const paths = require.main.paths;
+// Relative to this file rather than the entry point, so the test runner resolves the paths the same way.
+const baseUrl = __dirname;
+const paths = module.paths;
 
 const cache = {};
 
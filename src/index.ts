@@ -59,9 +59,15 @@ import overrideMiddleware from '@lib/middleware/override_middleware';
 import cidrCheckMiddleware from '@lib/middleware/cidr_check_middleware';
 import beginTimingMiddleware from '@lib/middleware/begin_timing_middleware';
 import healthCheckMiddleware from '@lib/middleware/health_check_middleware';
+import requestBodyMiddleware from '@lib/middleware/request_body_middleware';
 import sphynxDomainMiddleware from '@lib/middleware/sphynx_domain_middleware';
 import crawlerCheckMiddleware from '@lib/middleware/crawler_check_middleware';
+import forwardProxyMiddleware from '@lib/middleware/forward_proxy_middleware';
 import reverseProxyMiddleware from '@lib/middleware/reverse_proxy_middleware';
+import responseCacheMiddleware from '@lib/middleware/response_cache_middleware';
+import upgradeTunnelMiddleware from '@lib/middleware/upgrade_tunnel_middleware';
+import denyProxyLoopMiddleware from '@lib/middleware/deny_proxy_loop_middleware';
+import requestContextMiddleware from '@lib/middleware/request_context_middleware';
 import corsApplicationMiddleware from '@lib/middleware/cors_application_middleware';
 import sendAxiosRequestMiddleware from '@lib/middleware/send_axios_request_middleware';
 import loadBalancerInfoMiddleware from '@lib/middleware/load_balancer_info_middleware';
@@ -77,7 +83,7 @@ import denyLocalAreaNetworkAccessMiddleware from '@lib/middleware/deny_local_are
 import * as fs from 'fs';
 import * as path from 'path';
 import express from 'express';
-import * as bodyParser from 'body-parser';
+import net from '@mfdlabs/net';
 
 Error.stackTraceLimit = Infinity;
 
@@ -98,15 +104,6 @@ googleAnalytics.fireServerEventGA4('Server', 'Start');
 
 const proxyServer = express();
 
-// Make sure it uses body-parser.raw() to parse the body as a Buffer.
-proxyServer.use(
-  bodyParser.raw({
-    inflate: true,
-    limit: '5Gb',
-    type: () => true,
-  }),
-);
-
 ////////////////////////////////////////////////////////////////////////////////////////////////////
 // Middleware
 ////////////////////////////////////////////////////////////////////////////////////////////////////
@@ -117,8 +114,10 @@ proxyServer.use(
 
 entrypointLogger.information('Loading middleware...');
 
+proxyServer.use(requestContextMiddleware.invoke.bind(requestContextMiddleware));
 proxyServer.use(overrideMiddleware.invoke.bind(overrideMiddleware));
 proxyServer.use(reverseProxyMiddleware.invoke.bind(reverseProxyMiddleware));
+proxyServer.use(forwardProxyMiddleware.invoke.bind(forwardProxyMiddleware));
 proxyServer.use(loggingMiddleware.invoke.bind(loggingMiddleware));
 proxyServer.use(cidrCheckMiddleware.invoke.bind(cidrCheckMiddleware));
 proxyServer.use(crawlerCheckMiddleware.invoke.bind(crawlerCheckMiddleware));
@@ -129,8 +128,12 @@ proxyServer.use(wanAddressApplicationMiddleware.invoke.bind(wanAddressApplicatio
 proxyServer.use(hostnameResolutionMiddleware.invoke.bind(hostnameResolutionMiddleware));
 proxyServer.use(denyLocalAreaNetworkAccessMiddleware.invoke.bind(denyLocalAreaNetworkAccessMiddleware));
 proxyServer.use(denyLoopbackAttackMiddleware.invoke.bind(denyLoopbackAttackMiddleware));
+proxyServer.use(denyProxyLoopMiddleware.invoke.bind(denyProxyLoopMiddleware));
+proxyServer.use(requestBodyMiddleware.invoke.bind(requestBodyMiddleware));
+proxyServer.use(upgradeTunnelMiddleware.invoke.bind(upgradeTunnelMiddleware));
 proxyServer.use(corsApplicationMiddleware.invoke.bind(corsApplicationMiddleware));
 proxyServer.use(sphynxDomainMiddleware.invoke.bind(sphynxDomainMiddleware));
+proxyServer.use(responseCacheMiddleware.invoke.bind(responseCacheMiddleware));
 proxyServer.use(sendAxiosRequestMiddleware.invoke.bind(sendAxiosRequestMiddleware));
 
 ////////////////////////////////////////////////////////////////////////////////////////////////////
@@ -237,6 +240,25 @@ if (environment.enableSecureServer) {
 settings.insecure = true;
 settings.insecurePort = environment.insecurePort;
 
+if (environment.enableUpgradeProxying) {
+  entrypointLogger.information('Upgrade proxying is enabled.');
+  settings.allowUpgrades = true;
+}
+
+if (environment.enableForwardProxy) {
+  entrypointLogger.information('Forward proxy mode is enabled.');
+  settings.allowConnect = true;
+}
+
+if (environment.enableProxyProtocol) {
+  entrypointLogger.information('PROXY protocol is enabled.');
+  settings.proxyProtocol = true;
+  settings.proxyProtocolTimeout = environment.proxyProtocolTimeout;
+  settings.isProxyProtocolPeer = (address) =>
+    net.isIPv4InCidrRangeList(address, environment.authorizedReverseProxyIPv4Addresses) ||
+    net.isIPv6InCidrRangeList(address, environment.authorizedReverseProxyIPv6Addresses);
+}
+
 settings.bind = environment.bindAddressIPv4;
 
 web.startServer({
@@ -0,0 +1,69 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: cache_control.ts
+    Description: Parses Cache-Control headers.
+    Written by: Nikita Petko
+*/
+
+/**
+ * Parses Cache-Control headers.
+ */
+export default abstract class CacheControl {
+  /**
+   * Parses the directives of a Cache-Control header.
+   * @param {string | string[]} header The Cache-Control header.
+   * @returns {Map<string, string>} The directives, lowercased, mapped to their value or an empty string.
+   */
+  public static parse(header: string | string[]): Map<string, string> {
+    const directives = new Map<string, string>();
+
+    if (header === undefined || header === null) return directives;
+
+    const value = Array.isArray(header) ? header.join(',') : header;
+
+    for (const directive of value.split(',')) {
+      const [name, ...rest] = directive.split('=');
+
+      if (!name.trim()) continue;
+
+      directives.set(
+        name.trim().toLowerCase(),
+        rest
+          .join('=')
+          .trim()
+          .replace(/^"(.*)"$/, '$1'),
+      );
+    }
+
+    return directives;
+  }
+
+  /**
+   * Gets the value of a directive in seconds.
+   * @param {Map<string, string>} directives The parsed directives.
+   * @param {string} name The name of the directive.
+   * @returns {number | undefined} The value in seconds, or undefined if the directive isn't present or invalid.
+   */
+  public static getSeconds(directives: Map<string, string>, name: string): number | undefined {
+    if (!directives.has(name)) return undefined;
+
+    const seconds = parseInt(directives.get(name), 10);
+
+    return isNaN(seconds) || seconds < 0 ? undefined : seconds;
+  }
+}
@@ -0,0 +1,60 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: cache_entry.ts
+    Description: A response stored in the response cache.
+    Written by: Nikita Petko
+*/
+
+import CachePolicy from '@lib/cache/cache_policy';
+
+/**
+ * A response stored in the response cache.
+ */
+export default interface CacheEntry extends CachePolicy {
+  /**
+   * The key of the entry, this includes the values of the request headers the response varies on.
+   */
+  key: string;
+
+  /**
+   * The key of the resource the entry is a variant of.
+   */
+  primaryKey: string;
+
+  /**
+   * The status code of the response.
+   */
+  status: number;
+
+  /**
+   * The headers of the response, as they are sent to the client.
+   */
+  headers: { [key: string]: string | string[] };
+
+  /**
+   * The body of the response.
+   */
+  body: Buffer;
+
+  /**
+   * The time the response was received, in milliseconds since the epoch.
+   */
+  responseTime: number;
+
+  // eslint-disable-next-line semi
+}
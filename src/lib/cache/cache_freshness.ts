@@ -0,0 +1,43 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: cache_freshness.ts
+    Description: A simple enum to represent how a cached response can be used for a request.
+    Written by: Nikita Petko
+*/
+
+/**
+ * Represents how a cached response can be used for a request.
+ *
+ * @enum {string} The freshness states.
+ */
+export enum CacheFreshness {
+  /**
+   * The response can be served as is.
+   */
+  Fresh = 'fresh',
+
+  /**
+   * The response can be served, but it has to be revalidated in the background.
+   */
+  StaleWhileRevalidate = 'stale-while-revalidate',
+
+  /**
+   * The response has to be revalidated before it can be served.
+   */
+  Stale = 'stale',
+}
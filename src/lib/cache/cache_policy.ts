@@ -0,0 +1,58 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: cache_policy.ts
+    Description: How a stored response can be reused, determined from the response's caching headers.
+    Written by: Nikita Petko
+*/
+
+/**
+ * How a stored response can be reused.
+ */
+export default interface CachePolicy {
+  /**
+   * The request headers the response varies on, lowercased.
+   */
+  vary: string[];
+
+  /**
+   * The age of the response when it was received, in seconds.
+   */
+  initialAge: number;
+
+  /**
+   * How long the response is fresh for, in seconds.
+   */
+  freshnessLifetime: number;
+
+  /**
+   * How long the response can be served while it's being revalidated after it went stale, in seconds.
+   */
+  staleWhileRevalidate: number;
+
+  /**
+   * How long the response can be served after it went stale if the downstream fails, in seconds.
+   */
+  staleIfError: number;
+
+  /**
+   * Determines if the response can never be served stale.
+   */
+  mustRevalidate: boolean;
+
+  // eslint-disable-next-line semi
+}
@@ -0,0 +1,191 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: disk_cache_store.ts
+    Description: The on-disk tier of the response cache, entries are evicted least recently used first.
+                 Every entry is stored as two files, the metadata as JSON and the body as is.
+    Written by: Nikita Petko
+*/
+
+import cacheEntry from '@lib/cache/cache_entry';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+/**
+ * A cache entry without its body.
+ */
+export type CacheEntryMetadata = Omit<cacheEntry, 'body'>;
+
+/**
+ * The on-disk tier of the response cache.
+ */
+export default class DiskCacheStore {
+  // Maps the key of every stored entry to the size of its body, the first one is the least recently used one.
+  private readonly _index = new Map<string, number>();
+  // The entries that are still being written, so they can be read before they're on disk.
+  private readonly _pendingWrites = new Map<string, cacheEntry>();
+  private readonly _directory: string;
+  private readonly _maxSize: number;
+
+  private _size = 0;
+
+  /**
+   * Creates a new on-disk cache store.
+   * @param {string} directory The directory the entries are stored in.
+   * @param {number} maxSize The max size of the bodies of all entries, in bytes.
+   */
+  public constructor(directory: string, maxSize: number) {
+    this._directory = directory;
+    this._maxSize = maxSize;
+  }
+
+  /**
+   * Loads the entries that were stored before the process started.
+   * @returns {CacheEntryMetadata[]} The metadata of the loaded entries.
+   */
+  public load(): CacheEntryMetadata[] {
+    fs.mkdirSync(this._directory, { recursive: true });
+
+    const metadataFiles = fs
+      .readdirSync(this._directory)
+      .filter((fileName) => fileName.endsWith('.json'))
+      .map((fileName) => path.join(this._directory, fileName))
+      .sort((a, b) => fs.statSync(a).mtimeMs - fs.statSync(b).mtimeMs);
+
+    const loaded: CacheEntryMetadata[] = [];
+
+    for (const metadataFile of metadataFiles) {
+      const bodyFile = metadataFile.replace(/\.json$/, '.body');
+
+      try {
+        const metadata = JSON.parse(fs.readFileSync(metadataFile, 'utf8')) as CacheEntryMetadata;
+        const size = fs.statSync(bodyFile).size;
+
+        this._index.set(metadata.key, size);
+        this._size += size;
+
+        loaded.push(metadata);
+      } catch {
+        // Half written or corrupt, it's not worth keeping.
+        fs.rmSync(metadataFile, { force: true });
+        fs.rmSync(bodyFile, { force: true });
+      }
+    }
+
+    this._evict();
+
+    return loaded.filter((metadata) => this._index.has(metadata.key));
+  }
+
+  /**
+   * Gets an entry, and marks it as the most recently used one.
+   * @param {string} key The key of the entry.
+   * @returns {Promise<cacheEntry | undefined>} The entry, or undefined if there isn't one.
+   */
+  public async get(key: string): Promise<cacheEntry | undefined> {
+    const size = this._index.get(key);
+
+    if (size === undefined) return undefined;
+
+    this._index.delete(key);
+    this._index.set(key, size);
+
+    const pendingWrite = this._pendingWrites.get(key);
+    if (pendingWrite !== undefined) return pendingWrite;
+
+    const [metadata, body] = await Promise.all([
+      fs.promises.readFile(this._getFileName(key, '.json'), 'utf8'),
+      fs.promises.readFile(this._getFileName(key, '.body')),
+    ]);
+
+    return { ...(JSON.parse(metadata) as CacheEntryMetadata), body };
+  }
+
+  /**
+   * Stores an entry, evicting the least recently used entries if there isn't enough room.
+   * @param {cacheEntry} entry The entry.
+   * @returns {Promise<void>} Nothing.
+   */
+  public async set(entry: cacheEntry): Promise<void> {
+    if (entry.body.length > this._maxSize) return;
+
+    this._removeFromIndex(entry.key);
+
+    this._index.set(entry.key, entry.body.length);
+    this._size += entry.body.length;
+
+    const { body, ...metadata } = entry;
+
+    this._pendingWrites.set(entry.key, entry);
+
+    try {
+      // The metadata is written last, so an entry without it is known to be half written.
+      await fs.promises.writeFile(this._getFileName(entry.key, '.body'), body);
+      await fs.promises.writeFile(this._getFileName(entry.key, '.json'), JSON.stringify(metadata));
+    } finally {
+      if (this._pendingWrites.get(entry.key) === entry) this._pendingWrites.delete(entry.key);
+    }
+
+    this._evict();
+  }
+
+  /**
+   * Deletes an entry.
+   * @param {string} key The key of the entry.
+   * @returns {Promise<void>} Nothing.
+   */
+  public async delete(key: string): Promise<void> {
+    if (!this._removeFromIndex(key)) return;
+
+    await this._deleteFiles(key);
+  }
+
+  private _removeFromIndex(key: string): boolean {
+    const size = this._index.get(key);
+
+    if (size === undefined) return false;
+
+    this._index.delete(key);
+    this._size -= size;
+
+    return true;
+  }
+
+  private async _deleteFiles(key: string): Promise<void> {
+    await Promise.all([
+      fs.promises.rm(this._getFileName(key, '.json'), { force: true }),
+      fs.promises.rm(this._getFileName(key, '.body'), { force: true }),
+    ]);
+  }
+
+  private _evict(): void {
+    while (this._size > this._maxSize) {
+      const oldest = this._index.keys().next().value as string;
+
+      this._removeFromIndex(oldest);
+
+      // A failure only leaves the files behind, they are picked up again the next time the cache is loaded.
+      this._deleteFiles(oldest).catch(() => undefined);
+    }
+  }
+
+  private _getFileName(key: string, extension: string): string {
+    return path.join(this._directory, crypto.createHash('sha1').update(key).digest('hex') + extension);
+  }
+}
@@ -0,0 +1,688 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: index.ts
+    Description: A shared HTTP response cache following the semantics of RFC 9111. Entries are kept in memory and
+                 moved to disk when they are evicted from memory.
+    Written by: Nikita Petko
+*/
+
+import '@lib/extensions/express/request';
+
+import logger from '@lib/logger';
+import environment from '@lib/environment';
+import viaHeader from '@lib/proxy/via_header';
+import agentPool from '@lib/proxy/agent_pool';
+import cacheEntry from '@lib/cache/cache_entry';
+import cachePolicy from '@lib/cache/cache_policy';
+import cacheControl from '@lib/cache/cache_control';
+import http2Transport from '@lib/proxy/http2_transport';
+import timeoutProfile from '@lib/proxy/timeout_profile';
+import diskCacheStore from '@lib/cache/disk_cache_store';
+import hopByHopHeaders from '@lib/proxy/hop_by_hop_headers';
+import { CacheFreshness } from '@lib/cache/cache_freshness';
+import memoryCacheStore from '@lib/cache/memory_cache_store';
+
+import * as stream from 'stream';
+import { Request, Response } from 'express';
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+
+const responseCacheLogger = new logger(
+  'response-cache',
+  environment.logLevel,
+  environment.logToFileSystem,
+  environment.logToConsole,
+  environment.loggerCutPrefix,
+);
+
+/**
+ * A shared HTTP response cache following the semantics of RFC 9111.
+ */
+export default abstract class ResponseCache {
+  // The status codes that are cacheable by default (RFC 9110 section 15.1), excluding 206 as ranges aren't cached.
+  private static readonly _storableStatusCodes = [200, 203, 204, 300, 301, 308, 404, 405, 410, 414, 501];
+
+  // The status codes that allow a stale response to be served if it has stale-if-error.
+  private static readonly _errorStatusCodes = [500, 502, 503, 504];
+
+  // The headers a 304 response updates the stored response with.
+  private static readonly _revalidatedHeaders = ['cache-control', 'etag', 'last-modified', 'vary'];
+
+  // The headers that are specific to the response they were sent with, so they are never stored.
+  private static readonly _unstoredHeaders = [
+    'age',
+    'connection',
+    'keep-alive',
+    'transfer-encoding',
+    'x-cache',
+    'x-downstream-timing',
+    'x-proxy-retries',
+  ];
+
+  private static _initialized = false;
+  private static _memoryStore: memoryCacheStore = null;
+  private static _diskStore: diskCacheStore = null;
+
+  // Maps the key of every resource to the request headers its responses vary on, and the keys of its variants.
+  private static _resources = new Map<string, { vary: string[]; keys: Set<string> }>();
+
+  private static _backgroundRevalidations = new Set<string>();
+
+  /**
+   * Determines if the cache is enabled for the downstream.
+   * @param {string} hostname The hostname of the downstream.
+   * @returns {boolean} True if responses from the downstream can be cached.
+   */
+  public static isEnabled(hostname: string): boolean {
+    if (!environment.enableResponseCache) return false;
+
+    const hostnames = environment.responseCacheHostnames;
+
+    return hostnames.includes('*') || hostnames.includes(hostname);
+  }
+
+  /**
+   * Determines if the request can be served from the cache.
+   * @param {Request} request The request.
+   * @returns {boolean} True if the request can be served from the cache.
+   */
+  public static isCacheableRequest(request: Request): boolean {
+    if (request.method !== 'GET' && request.method !== 'HEAD') return false;
+
+    // We don't store partial responses.
+    if (request.headers.range !== undefined) return false;
+
+    return !this._getRequestDirectives(request).has('no-store');
+  }
+
+  /**
+   * Invalidates the stored responses for the request's URI, used after a successful unsafe request.
+   * @param {Request} request The request.
+   * @returns {void} Nothing.
+   */
+  public static invalidate(request: Request): void {
+    this._initialize();
+
+    const primaryKey = this._getPrimaryKey(request);
+    const resource = this._resources.get(primaryKey);
+
+    if (resource === undefined) return;
+
+    for (const key of resource.keys) this._delete(key);
+
+    this._resources.delete(primaryKey);
+  }
+
+  /**
+   * Looks up the stored response for a request.
+   * @param {Request} request The request.
+   * @returns {Promise<cacheEntry | undefined>} The stored response, or undefined if there isn't one.
+   */
+  public static async lookup(request: Request): Promise<cacheEntry | undefined> {
+    this._initialize();
+
+    const primaryKey = this._getPrimaryKey(request);
+    const resource = this._resources.get(primaryKey);
+
+    if (resource === undefined) return undefined;
+
+    const key = this._getKey(primaryKey, resource.vary, request);
+
+    let entry = this._memoryStore.get(key);
+
+    if (entry === undefined && this._diskStore !== null) {
+      entry = await this._diskStore.get(key);
+
+      if (entry !== undefined) this._memoryStore.set(entry);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Determines how a stored response can be used for a request.
+   * @param {cacheEntry} entry The stored response.
+   * @param {Request} request The request.
+   * @returns {CacheFreshness} How the stored response can be used.
+   */
+  public static getFreshness(entry: cacheEntry, request: Request): CacheFreshness {
+    const directives = this._getRequestDirectives(request);
+
+    if (directives.has('no-cache')) return CacheFreshness.Stale;
+
+    const age = this._getCurrentAge(entry);
+
+    const maxAge = cacheControl.getSeconds(directives, 'max-age');
+    if (maxAge !== undefined && age > maxAge) return CacheFreshness.Stale;
+
+    const minFresh = cacheControl.getSeconds(directives, 'min-fresh') ?? 0;
+    if (entry.freshnessLifetime - age > minFresh) return CacheFreshness.Fresh;
+
+    if (entry.mustRevalidate) return CacheFreshness.Stale;
+
+    const staleness = age - entry.freshnessLifetime;
+
+    if (directives.has('max-stale')) {
+      const maxStale = cacheControl.getSeconds(directives, 'max-stale');
+
+      // Without a value, the client accepts a response of any staleness.
+      if (maxStale === undefined || staleness <= maxStale) return CacheFreshness.Fresh;
+    }
+
+    // Still fresh, but not for as long as the client asked for with min-fresh.
+    if (staleness < 0) return CacheFreshness.Stale;
+
+    if (staleness <= entry.staleWhileRevalidate) return CacheFreshness.StaleWhileRevalidate;
+
+    return CacheFreshness.Stale;
+  }
+
+  /**
+   * Responds with a stored response.
+   * @param {cacheEntry} entry The stored response.
+   * @param {string} cacheStatus The value of the x-cache header, HIT or STALE.
+   * @param {Request} request The request.
+   * @param {Response} response The response.
+   * @returns {void} Nothing.
+   */
+  public static serve(entry: cacheEntry, cacheStatus: string, request: Request, response: Response): void {
+    response.status(entry.status);
+    response.set(entry.headers);
+    response.header({
+      age: Math.floor(this._getCurrentAge(entry)).toString(),
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      'x-cache': cacheStatus,
+    });
+
+    if (this._isNotModified(entry, request)) {
+      response.status(304);
+      response.removeHeader('content-length');
+      response.end();
+
+      return;
+    }
+
+    response.end(entry.body);
+  }
+
+  /**
+   * Adds the validators of a stored response to the request, so the downstream can respond with a 304.
+   * @param {cacheEntry} entry The stored response.
+   * @param {Request} request The request.
+   * @returns {boolean} True if the validators were added, false if the client sent its own or there are none.
+   */
+  public static addConditionalHeaders(entry: cacheEntry, request: Request): boolean {
+    if (request.headers['if-none-match'] !== undefined || request.headers['if-modified-since'] !== undefined) {
+      return false;
+    }
+
+    const etag = entry.headers.etag as string;
+    const lastModified = entry.headers['last-modified'] as string;
+
+    if (etag === undefined && lastModified === undefined) return false;
+
+    if (etag !== undefined) request.headers['if-none-match'] = etag;
+    if (lastModified !== undefined) request.headers['if-modified-since'] = lastModified;
+
+    return true;
+  }
+
+  /**
+   * Revalidates a stored response without blocking the request, used for stale-while-revalidate.
+   *
+   * Only a 304 refreshes the stored response. Any other response deletes it, so the next request will go to the
+   * downstream and store the new response.
+   * @param {cacheEntry} entry The stored response.
+   * @param {Request} request The request that was served the stored response.
+   * @returns {void} Nothing.
+   */
+  public static revalidateInBackground(entry: cacheEntry, request: Request): void {
+    if (this._backgroundRevalidations.has(entry.key)) return;
+
+    this._backgroundRevalidations.add(entry.key);
+
+    const hostname = request.context.get('hostname');
+    const resolvedAddress = request.context.get('resolvedAddress');
+
+    const headers = {
+      ...request.headers,
+
+      host: hostname,
+    };
+
+    delete headers['if-none-match'];
+    delete headers['if-modified-since'];
+
+    hopByHopHeaders.strip(headers);
+
+    headers.via = viaHeader.append(request.headers.via, request.httpVersion);
+
+    if (entry.headers.etag !== undefined) headers['if-none-match'] = entry.headers.etag as string;
+    if (entry.headers['last-modified'] !== undefined) {
+      headers['if-modified-since'] = entry.headers['last-modified'] as string;
+    }
+
+    const configuration: AxiosRequestConfig = {
+      headers: headers as unknown as AxiosRequestConfig['headers'],
+      method: 'GET',
+      responseType: 'stream',
+      decompress: false,
+      url: `${request.protocol}://${hostname}:${request.localPort}${request.originalUrl}`,
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      validateStatus: (_status: number): boolean => true,
+      maxRedirects: 0,
+    };
+
+    if (request.protocol === 'https') {
+      configuration.httpsAgent = agentPool.getAgent(request.protocol, hostname, resolvedAddress);
+    } else {
+      configuration.httpAgent = agentPool.getAgent(request.protocol, hostname, resolvedAddress);
+    }
+
+    const timeouts = timeoutProfile.getTimeouts(hostname, request);
+
+    // Without a connect timeout the session is only bounded by the total one.
+    http2Transport.configure(
+      configuration,
+      request.protocol,
+      hostname,
+      resolvedAddress,
+      timeouts.connect || timeouts.total,
+    );
+
+    timeoutProfile.configure(configuration, timeouts, Date.now() + timeouts.total);
+
+    axios
+      .request(configuration)
+      .then((axiosResponse) => {
+        (axiosResponse.data as stream.Readable).destroy();
+
+        if (axiosResponse.status === 304) {
+          this._refresh(entry, axiosResponse, request);
+          return;
+        }
+
+        responseCacheLogger.debug(
+          'Background revalidation of \'%s\' responded with %d, deleting the stored response.',
+          entry.primaryKey,
+          axiosResponse.status,
+        );
+
+        this._delete(entry.key);
+      })
+      .catch((error) => {
+        responseCacheLogger.warning('Background revalidation of \'%s\' failed: %s', entry.primaryKey, error.message);
+      })
+      .finally(() => this._backgroundRevalidations.delete(entry.key));
+  }
+
+  /**
+   * Gets the policy a downstream response would be stored with.
+   * @param {Request} request The request.
+   * @param {AxiosResponse} axiosResponse The downstream response, before any of its headers are changed.
+   * @returns {cachePolicy | undefined} The policy, or undefined if the response can't be stored.
+   */
+  public static getStoragePolicy(request: Request, axiosResponse: AxiosResponse): cachePolicy | undefined {
+    // The request didn't go through the cache.
+    if (request.context.get('responseCache') === undefined) return undefined;
+
+    // A HEAD request can be served from a stored GET response, but not the other way around.
+    if (request.method !== 'GET') return undefined;
+
+    return this._getPolicy(axiosResponse.status, axiosResponse.headers, request);
+  }
+
+  /**
+   * Stores a downstream response while it's streamed to the client.
+   * @param {cachePolicy} policy The policy to store the response with.
+   * @param {AxiosResponse} axiosResponse The downstream response, with its headers as they are sent to the client.
+   * @param {Request} request The request.
+   * @returns {stream.Transform} The stream to pipe the response body through.
+   */
+  public static capture(policy: cachePolicy, axiosResponse: AxiosResponse, request: Request): stream.Transform {
+    const primaryKey = this._getPrimaryKey(request);
+    const key = this._getKey(primaryKey, policy.vary, request);
+    const responseTime = Date.now();
+
+    const headers = { ...axiosResponse.headers } as cacheEntry['headers'];
+
+    for (const header of this._unstoredHeaders) delete headers[header];
+
+    const maxEntrySize = environment.responseCacheMaxEntrySize;
+
+    let chunks: Buffer[] = [];
+    let size = 0;
+
+    return new stream.Transform({
+      transform: (chunk: Buffer, _encoding, callback) => {
+        if (chunks !== null) {
+          size += chunk.length;
+
+          // Too large to store, but it still has to be streamed to the client.
+          if (size > maxEntrySize) chunks = null;
+          else chunks.push(chunk);
+        }
+
+        callback(null, chunk);
+      },
+
+      // Only called when the whole body was received.
+      flush: (callback) => {
+        if (chunks !== null) {
+          const body = Buffer.concat(chunks, size);
+
+          headers['content-length'] = body.length.toString();
+
+          this._store({ ...policy, key, primaryKey, status: axiosResponse.status, headers, body, responseTime });
+        }
+
+        callback();
+      },
+    });
+  }
+
+  /**
+   * Responds with the stored response if the downstream response allows it, i.e. a 304 to our revalidation or
+   * an error while the stored response has stale-if-error.
+   * @param {AxiosResponse} axiosResponse The downstream response.
+   * @param {Request} request The request.
+   * @param {Response} response The response.
+   * @returns {boolean} True if the stored response was served.
+   */
+  public static tryServeFromCache(axiosResponse: AxiosResponse, request: Request, response: Response): boolean {
+    const lookup = request.context.get('responseCache');
+
+    if (lookup?.entry === undefined) return false;
+
+    if (axiosResponse.status === 304 && lookup.conditional) {
+      (axiosResponse.data as stream.Readable).destroy();
+
+      // They were added by us, the client wants the full response.
+      delete request.headers['if-none-match'];
+      delete request.headers['if-modified-since'];
+
+      this.serve(this._refresh(lookup.entry, axiosResponse, request), 'HIT', request, response);
+
+      return true;
+    }
+
+    if (!this._errorStatusCodes.includes(axiosResponse.status)) return false;
+
+    if (!this._canServeStaleIfError(lookup.entry)) return false;
+
+    (axiosResponse.data as stream.Readable).destroy();
+
+    this.serve(lookup.entry, 'STALE', request, response);
+
+    return true;
+  }
+
+  /**
+   * Responds with the stored response if the request failed and the stored response has stale-if-error.
+   * @param {Request} request The request.
+   * @param {Response} response The response.
+   * @returns {boolean} True if the stored response was served.
+   */
+  public static tryServeStaleIfError(request: Request, response: Response): boolean {
+    const lookup = request.context.get('responseCache');
+
+    if (lookup?.entry === undefined) return false;
+
+    if (!this._canServeStaleIfError(lookup.entry)) return false;
+
+    this.serve(lookup.entry, 'STALE', request, response);
+
+    return true;
+  }
+
+  private static _initialize(): void {
+    if (this._initialized) return;
+
+    this._initialized = true;
+
+    this._memoryStore = new memoryCacheStore(environment.responseCacheMemoryMaxSize, (entry) => {
+      this._diskStore?.set(entry).catch((error) => {
+        responseCacheLogger.warning('Failed to move \'%s\' to disk: %s', entry.key, error.message);
+      });
+    });
+
+    if (environment.responseCacheDiskMaxSize <= 0) return;
+
+    this._diskStore = new diskCacheStore(environment.responseCacheDiskDirectory, environment.responseCacheDiskMaxSize);
+
+    try {
+      for (const metadata of this._diskStore.load()) {
+        this._addToResources(metadata.primaryKey, metadata.vary, metadata.key);
+      }
+    } catch (error) {
+      responseCacheLogger.error('Failed to load the disk cache, only caching in memory: %s', error.message);
+
+      this._diskStore = null;
+    }
+  }
+
+  private static _store(entry: cacheEntry): void {
+    this._addToResources(entry.primaryKey, entry.vary, entry.key);
+
+    if (this._memoryStore.set(entry)) {
+      // The copy on disk is outdated now, the new one is written when it's evicted from memory.
+      this._diskStore?.delete(entry.key).catch((error) => {
+        responseCacheLogger.warning('Failed to delete \'%s\' from disk: %s', entry.key, error.message);
+      });
+
+      return;
+    }
+
+    // Too large for memory.
+    this._diskStore?.set(entry).catch((error) => {
+      responseCacheLogger.warning('Failed to store \'%s\' on disk: %s', entry.key, error.message);
+    });
+  }
+
+  private static _addToResources(primaryKey: string, vary: string[], key: string): void {
+    const resource = this._resources.get(primaryKey);
+
+    if (resource === undefined) {
+      this._resources.set(primaryKey, { vary, keys: new Set([key]) });
+      return;
+    }
+
+    // The variants of a resource are only found through its latest Vary header, so the rest are unreachable.
+    if (resource.vary.join() !== vary.join()) {
+      for (const oldKey of resource.keys) {
+        if (oldKey !== key) this._delete(oldKey);
+      }
+
+      this._resources.set(primaryKey, { vary, keys: new Set([key]) });
+      return;
+    }
+
+    resource.keys.add(key);
+  }
+
+  private static _delete(key: string): void {
+    this._memoryStore.delete(key);
+    this._diskStore?.delete(key).catch((error) => {
+      responseCacheLogger.warning('Failed to delete \'%s\' from disk: %s', key, error.message);
+    });
+  }
+
+  private static _refresh(entry: cacheEntry, axiosResponse: AxiosResponse, request: Request): cacheEntry {
+    const mergedHeaders = { ...entry.headers, ...axiosResponse.headers } as AxiosResponse['headers'];
+    const policy = this._getPolicy(entry.status, mergedHeaders, request);
+
+    // The downstream doesn't allow it to be stored anymore, it can still be served this one time.
+    if (policy === undefined) {
+      this._delete(entry.key);
+
+      return entry;
+    }
+
+    const headers = { ...entry.headers };
+
+    for (const header of this._revalidatedHeaders) {
+      if (axiosResponse.headers[header] !== undefined) headers[header] = axiosResponse.headers[header];
+    }
+
+    const refreshed: cacheEntry = { ...entry, ...policy, headers, responseTime: Date.now() };
+
+    this._store(refreshed);
+
+    return refreshed;
+  }
+
+  private static _getPolicy(
+    status: number,
+    headers: AxiosResponse['headers'],
+    request: Request,
+  ): cachePolicy | undefined {
+    if (!this._storableStatusCodes.includes(status)) return undefined;
+
+    const directives = cacheControl.parse(headers['cache-control']);
+
+    // We're a shared cache, so private responses can't be stored either.
+    if (directives.has('no-store') || directives.has('private')) return undefined;
+
+    // An authorized response can only be stored if the downstream explicitly allows it.
+    if (
+      request.headers.authorization !== undefined &&
+      !directives.has('public') &&
+      !directives.has('s-maxage') &&
+      !directives.has('must-revalidate')
+    ) {
+      return undefined;
+    }
+
+    // Responses that set cookies are specific to the client they were sent to.
+    if (headers['set-cookie'] !== undefined) return undefined;
+
+    const vary = (headers.vary ?? '')
+      .split(',')
+      .map((header) => header.trim().toLowerCase())
+      .filter((header) => header.length > 0);
+
+    if (vary.includes('*')) return undefined;
+
+    const freshnessLifetime = this._getFreshnessLifetime(headers, directives);
+
+    // Without freshness or validators it would have to be fetched again anyway.
+    if (freshnessLifetime === undefined && headers.etag === undefined && headers['last-modified'] === undefined) {
+      return undefined;
+    }
+
+    const noCache = directives.has('no-cache');
+
+    return {
+      vary,
+      initialAge: this._getInitialAge(headers),
+      freshnessLifetime: noCache ? 0 : freshnessLifetime ?? 0,
+      staleWhileRevalidate: cacheControl.getSeconds(directives, 'stale-while-revalidate') ?? 0,
+      staleIfError: cacheControl.getSeconds(directives, 'stale-if-error') ?? 0,
+      mustRevalidate: noCache || directives.has('must-revalidate') || directives.has('proxy-revalidate'),
+    };
+  }
+
+  private static _getFreshnessLifetime(
+    headers: AxiosResponse['headers'],
+    directives: Map<string, string>,
+  ): number | undefined {
+    const sharedMaxAge = cacheControl.getSeconds(directives, 's-maxage');
+    if (sharedMaxAge !== undefined) return sharedMaxAge;
+
+    const maxAge = cacheControl.getSeconds(directives, 'max-age');
+    if (maxAge !== undefined) return maxAge;
+
+    const date = Date.parse(headers.date) || Date.now();
+
+    if (headers.expires !== undefined) {
+      const expires = Date.parse(headers.expires);
+
+      // An invalid Expires means it has already expired.
+      return isNaN(expires) ? 0 : Math.max((expires - date) / 1000, 0);
+    }
+
+    const lastModified = Date.parse(headers['last-modified']);
+    if (isNaN(lastModified)) return undefined;
+
+    // The heuristic suggested by RFC 9111 section 4.2.2, 10% of the time since it was last modified.
+    return Math.max((date - lastModified) / 10000, 0);
+  }
+
+  private static _getInitialAge(headers: AxiosResponse['headers']): number {
+    const ageValue = parseInt(headers.age, 10) || 0;
+
+    const date = Date.parse(headers.date);
+    const apparentAge = isNaN(date) ? 0 : Math.max((Date.now() - date) / 1000, 0);
+
+    return Math.max(apparentAge, ageValue);
+  }
+
+  private static _getCurrentAge(entry: cacheEntry): number {
+    return entry.initialAge + (Date.now() - entry.responseTime) / 1000;
+  }
+
+  private static _canServeStaleIfError(entry: cacheEntry): boolean {
+    if (entry.mustRevalidate) return false;
+
+    return this._getCurrentAge(entry) - entry.freshnessLifetime <= entry.staleIfError;
+  }
+
+  private static _isNotModified(entry: cacheEntry, request: Request): boolean {
+    const ifNoneMatch = request.headers['if-none-match'];
+
+    if (ifNoneMatch !== undefined) {
+      const etag = entry.headers.etag as string;
+
+      if (etag === undefined) return false;
+
+      // If-None-Match uses the weak comparison.
+      const opaqueTag = (tag: string) => tag.trim().replace(/^W\//, '');
+
+      return ifNoneMatch.split(',').some((tag) => tag.trim() === '*' || opaqueTag(tag) === opaqueTag(etag));
+    }
+
+    const ifModifiedSince = Date.parse(request.headers['if-modified-since']);
+    const lastModified = Date.parse(entry.headers['last-modified'] as string);
+
+    if (isNaN(ifModifiedSince) || isNaN(lastModified)) return false;
+
+    return lastModified <= ifModifiedSince;
+  }
+
+  private static _getRequestDirectives(request: Request): Map<string, string> {
+    // Pragma is only used when there is no Cache-Control (RFC 9111 section 5.4).
+    if (request.headers['cache-control'] === undefined && request.headers.pragma === 'no-cache') {
+      return new Map([['no-cache', '']]);
+    }
+
+    return cacheControl.parse(request.headers['cache-control']);
+  }
+
+  private static _getPrimaryKey(request: Request): string {
+    return `${request.protocol}://${request.headers.host}${request.originalUrl}`;
+  }
+
+  private static _getKey(primaryKey: string, vary: string[], request: Request): string {
+    const values = vary.map((header) => {
+      const value = request.headers[header];
+
+      return `${header}: ${(Array.isArray(value) ? value.join(', ') : value ?? '').replace(/\s+/g, ' ').trim()}`;
+    });
+
+    return [primaryKey, ...values].join('\n');
+  }
+}
@@ -0,0 +1,98 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: memory_cache_store.ts
+    Description: The in-memory tier of the response cache, entries are evicted least recently used first.
+    Written by: Nikita Petko
+*/
+
+import cacheEntry from '@lib/cache/cache_entry';
+
+/**
+ * The in-memory tier of the response cache.
+ */
+export default class MemoryCacheStore {
+  // Maps keep their insertion order, so the first entry is always the least recently used one.
+  private readonly _entries = new Map<string, cacheEntry>();
+  private readonly _maxSize: number;
+  private readonly _onEvict: (entry: cacheEntry) => void;
+
+  private _size = 0;
+
+  /**
+   * Creates a new in-memory cache store.
+   * @param {number} maxSize The max size of the bodies of all entries, in bytes.
+   * @param {Function} onEvict Called with every entry that is evicted to make room for another one.
+   */
+  public constructor(maxSize: number, onEvict: (entry: cacheEntry) => void) {
+    this._maxSize = maxSize;
+    this._onEvict = onEvict;
+  }
+
+  /**
+   * Gets an entry, and marks it as the most recently used one.
+   * @param {string} key The key of the entry.
+   * @returns {cacheEntry | undefined} The entry, or undefined if there isn't one.
+   */
+  public get(key: string): cacheEntry | undefined {
+    const entry = this._entries.get(key);
+
+    if (entry === undefined) return undefined;
+
+    this._entries.delete(key);
+    this._entries.set(key, entry);
+
+    return entry;
+  }
+
+  /**
+   * Stores an entry, evicting the least recently used entries if there isn't enough room.
+   * @param {cacheEntry} entry The entry.
+   * @returns {boolean} False if the entry is too large to be stored.
+   */
+  public set(entry: cacheEntry): boolean {
+    this.delete(entry.key);
+
+    if (entry.body.length > this._maxSize) return false;
+
+    this._entries.set(entry.key, entry);
+    this._size += entry.body.length;
+
+    while (this._size > this._maxSize) {
+      const [, oldest] = this._entries.entries().next().value as [string, cacheEntry];
+
+      this.delete(oldest.key);
+      this._onEvict(oldest);
+    }
+
+    return true;
+  }
+
+  /**
+   * Deletes an entry.
+   * @param {string} key The key of the entry.
+   * @returns {void} Nothing.
+   */
+  public delete(key: string): void {
+    const entry = this._entries.get(key);
+
+    if (entry === undefined) return;
+
+    this._entries.delete(key);
+    this._size -= entry.body.length;
+  }
+}
@@ -0,0 +1,94 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: index.ts
+    Description: A typed context that is isolated to a single request.
+    Written by: Nikita Petko
+*/
+
+import requestContextValues from './request_context_values';
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * A typed context that is isolated to a single request.
+ *
+ * The context of the request currently being handled can also be accessed through `RequestContext.current`, so
+ * things that don't have access to the request can read it, like the logger to prefix its lines with the request ID.
+ */
+export default class RequestContext {
+  private static readonly _storage = new AsyncLocalStorage<RequestContext>();
+
+  private readonly _values = new Map<keyof requestContextValues, unknown>();
+
+  /**
+   * Gets the context of the request currently being handled.
+   * @returns {RequestContext | undefined} The context, or undefined if we are not within a request.
+   */
+  public static get current(): RequestContext | undefined {
+    return this._storage.getStore();
+  }
+
+  /**
+   * Runs the callback with the specified context as the current context.
+   * @param {RequestContext} context The context.
+   * @param {Function} callback The callback.
+   * @returns {void} Nothing.
+   */
+  public static run(context: RequestContext, callback: () => void): void {
+    this._storage.run(context, callback);
+  }
+
+  /**
+   * Gets a value from the context.
+   * @param {string} key The key of the value.
+   * @returns {*} The value, or undefined if it was not set.
+   */
+  public get<K extends keyof requestContextValues>(key: K): requestContextValues[K] | undefined {
+    return this._values.get(key) as requestContextValues[K] | undefined;
+  }
+
+  /**
+   * Sets a value within the context.
+   * @param {string} key The key of the value.
+   * @param {*} value The value.
+   * @returns {RequestContext} The context.
+   */
+  public set<K extends keyof requestContextValues>(key: K, value: requestContextValues[K]): RequestContext {
+    this._values.set(key, value);
+
+    return this;
+  }
+
+  /**
+   * Determines if a value has been set within the context.
+   * @param {string} key The key of the value.
+   * @returns {boolean} True if the value has been set.
+   */
+  public has(key: keyof requestContextValues): boolean {
+    return this._values.has(key);
+  }
+
+  /**
+   * Deletes a value from the context.
+   * @param {string} key The key of the value.
+   * @returns {boolean} True if the value was set.
+   */
+  public delete(key: keyof requestContextValues): boolean {
+    return this._values.delete(key);
+  }
+}
@@ -0,0 +1,127 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: request_context_values.ts
+    Description: The values that can be stored within a request context.
+    Written by: Nikita Petko
+*/
+
+import cacheEntry from '@lib/cache/cache_entry';
+
+import * as stream from 'stream';
+
+/**
+ * The values that can be stored within a request context.
+ */
+export default interface RequestContextValues {
+  /**
+   * Determines if the request came from an authorized reverse proxy, so its forwarding headers can be trusted.
+   */
+  fromTrustedProxy: boolean;
+
+  /**
+   * The hops the request went through according to the forwarding headers of an authorized reverse proxy, with the
+   * client furthest to the left and the reverse proxy itself last.
+   */
+  forwardedChain: string[];
+
+  /**
+   * The transformed hostname of the downstream.
+   */
+  hostname: string;
+
+  /**
+   * The address that the transformed hostname resolved to.
+   */
+  resolvedAddress: string;
+
+  /**
+   * The time the request started being proxied, in milliseconds since the epoch.
+   */
+  startTime: number;
+
+  /**
+   * The ID of the request, included in error responses so they can be matched up with the logs.
+   */
+  requestId: string;
+
+  /**
+   * The Origin header with the upstream hostname replaced by the transformed hostname.
+   */
+  transformedOrigin: string;
+
+  /**
+   * The Referer header with the upstream hostname replaced by the transformed hostname.
+   */
+  transformedReferer: string;
+
+  /**
+   * Determines if the downstream response can overwrite the CORs headers we applied.
+   */
+  allowCorsHeaderOverwrite: boolean;
+
+  /**
+   * The stream the request body is sent to the downstream from, if it isn't buffered.
+   */
+  requestBodyStream: stream.Readable;
+
+  /**
+   * The amount of attempts made to send the request to the downstream, including retries.
+   */
+  downstreamAttempts: number;
+
+  /**
+   * Determines if the current attempt is a trial request of a half-open circuit.
+   */
+  circuitBreakerTrial: boolean;
+
+  /**
+   * The response cache lookup for the request, if it went through the cache.
+   */
+  responseCache: {
+    /**
+     * The stored response that is being revalidated, or undefined if there wasn't one.
+     */
+    entry: cacheEntry;
+
+    /**
+     * Determines if the validators of the stored response were added to the request.
+     */
+    conditional: boolean;
+  };
+
+  /**
+   * Determines if the request is mirrored to a shadow downstream, so its body is buffered to be sent to both.
+   */
+  trafficMirrorSampled: boolean;
+
+  /**
+   * Called with the downstream response once its body was received, if the request is compared with a shadow
+   * downstream by the traffic mirror.
+   */
+  trafficMirrorCapture: (headers: { [key: string]: string | string[] }, body: Buffer | undefined) => void;
+
+  /**
+   * The google analytics information for the request.
+   */
+  ga: {
+    category: string;
+    baseGaString: string;
+  };
+
+  // eslint-disable-next-line semi
+}
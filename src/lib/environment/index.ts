@@ -612,6 +612,17 @@ export default abstract class Environment {
     return this._getSettingOrDefault('FORWARDING_HEADER_NAME', 'X-Forwarded-For');
   }
 
+  /**
+   * Used by the reverse proxy middleware.
+   *
+   * The max amount of authorized reverse proxies in the forwarding header that are skipped to find the client IP
+   * address, e.g. 1 for X-Forwarded-For: client, cloudflare-edge when the request comes from nginx.
+   * @note The header is read from right to left, the first hop that isn't an authorized reverse proxy is the client.
+   */
+  public static get reverseProxyMiddlewareMaxTrustedHops(): number {
+    return this._getSettingOrDefault('REVERSE_PROXY_MIDDLEWARE_MAX_TRUSTED_HOPS', 5);
+  }
+
   /**
    * Used by the reverse proxy middleware.
    *
@@ -676,6 +687,17 @@ export default abstract class Environment {
     return this._getSettingOrDefault('FORWARDING_PORT_HEADER_NAME', 'X-Forwarded-Port');
   }
 
+  /**
+   * Used by the reverse proxy middleware.
+   *
+   * If true, we can use the standardized Forwarded header (RFC 7239) to reassign the client IP address, host header
+   * and scheme.
+   * @note It takes precedence over the forwarding headers above, which are still used if it's not present.
+   */
+  public static get reverseProxyMiddlewareUseForwardedHeader(): boolean {
+    return this._getSettingOrDefault('REVERSE_PROXY_MIDDLEWARE_USE_FORWARDED_HEADER', false);
+  }
+
   /**
    * Used by the health check middleware.
    *
@@ -755,16 +777,67 @@ export default abstract class Environment {
     return this._getSettingOrDefault('SEND_AXIOS_REQUEST_WITH_FORWARDED_HEADERS', true);
   }
 
+  /**
+   * Used by the send axios request middleware.
+   *
+   * If true, we will send the request with a standardized Forwarded header (RFC 7239).
+   * @note If the request came from an authorized reverse proxy, its Forwarded header is appended to, otherwise it's
+   * replaced.
+   */
+  public static get sendAxiosRequestWithStandardForwardedHeader(): boolean {
+    return this._getSettingOrDefault('SEND_AXIOS_REQUEST_WITH_STANDARD_FORWARDED_HEADER', false);
+  }
+
   /**
    * Used by the send axios request middleware.
    *
    * Specifies the max amount of time to wait for a response from the server.
-   * @note This is in milliseconds.
+   * @note This is in milliseconds, and is the default total timeout of the timeout profile rules.
    */
   public static get sendAxiosRequestTimeout(): number {
     return this._getSettingOrDefault('SEND_AXIOS_REQUEST_TIMEOUT', 35000);
   }
 
+  /**
+   * Used by the send axios request middleware.
+   *
+   * Specifies the max amount of time it may take to connect to the server, including the TLS handshake.
+   * @note This is in milliseconds, 0 means it's only bounded by SEND_AXIOS_REQUEST_TIMEOUT.
+   */
+  public static get sendAxiosRequestConnectTimeout(): number {
+    return this._getSettingOrDefault('SEND_AXIOS_REQUEST_CONNECT_TIMEOUT', 0);
+  }
+
+  /**
+   * Used by the send axios request middleware.
+   *
+   * Specifies the max amount of time between the request being sent and the server starting its response.
+   * @note This is in milliseconds, 0 means it's only bounded by SEND_AXIOS_REQUEST_TIMEOUT.
+   */
+  public static get sendAxiosRequestFirstByteTimeout(): number {
+    return this._getSettingOrDefault('SEND_AXIOS_REQUEST_FIRST_BYTE_TIMEOUT', 0);
+  }
+
+  /**
+   * Used by the send axios request middleware.
+   *
+   * Specifies the max amount of time the server may go quiet while it sends the response body.
+   * @note This is in milliseconds, 0 disables it.
+   */
+  public static get sendAxiosRequestIdleTimeout(): number {
+    return this._getSettingOrDefault('SEND_AXIOS_REQUEST_IDLE_TIMEOUT', 35000);
+  }
+
+  /**
+   * Used by the send axios request middleware.
+   *
+   * Specifies the max amount of time the server may take to send the whole response body.
+   * @note This is in milliseconds, 0 disables it.
+   */
+  public static get sendAxiosRequestBodyTimeout(): number {
+    return this._getSettingOrDefault('SEND_AXIOS_REQUEST_BODY_TIMEOUT', 0);
+  }
+
   /**
    * Used by the send axios request middleware.
    *
@@ -778,11 +851,643 @@ export default abstract class Environment {
    * Used by the send axios request middleware.
    *
    * If true, then certificate validation will be enabled.
+   * @note This is the default for downstreams that don't match a certificate validation rule, in which case the system
+   * certificate authorities and the ones in CERTIFICATE_VALIDATION_CA_BUNDLES are trusted.
    */
   public static get enableCertificateValidation(): boolean {
     return this._getSettingOrDefault('ENABLE_CERTIFICATE_VALIDATION', false); // False here because there's no reason to enable it by default.
   }
 
+  /**
+   * Used by the entry point.
+   *
+   * If true, HTTP Upgrade requests (such as WebSockets) will be tunneled to the downstream.
+   */
+  public static get enableUpgradeProxying(): boolean {
+    return this._getSettingOrDefault('ENABLE_UPGRADE_PROXYING', true);
+  }
+
+  /**
+   * Used by the entry point and the forward proxy middleware.
+   *
+   * If true, clients can use this server as their HTTP proxy, with absolute-form requests and CONNECT tunnels.
+   * @note These go through the same CIDR, LAN, loopback and hostname checks as any other request.
+   */
+  public static get enableForwardProxy(): boolean {
+    return this._getSettingOrDefault('ENABLE_FORWARD_PROXY', false);
+  }
+
+  /**
+   * Used by the forward proxy middleware.
+   *
+   * The ports clients can open CONNECT tunnels to.
+   */
+  public static get forwardProxyConnectPorts(): number[] {
+    return this._getSettingOrDefault('FORWARD_PROXY_CONNECT_PORTS', ['443']).map((port) => parseInt(port, 10));
+  }
+
+  /**
+   * Used by the entry point.
+   *
+   * If true, connections from authorized reverse proxies must start with a PROXY protocol (v1 or v2) header, which
+   * is used as the client IP address.
+   * @note Only connections from the authorized reverse proxy IP addresses are expected to send the header.
+   */
+  public static get enableProxyProtocol(): boolean {
+    return this._getSettingOrDefault('ENABLE_PROXY_PROTOCOL', false);
+  }
+
+  /**
+   * Used by the entry point.
+   *
+   * Specifies the max amount of time to wait for the PROXY protocol header of a connection.
+   * @note This is in milliseconds.
+   */
+  public static get proxyProtocolTimeout(): number {
+    return this._getSettingOrDefault('PROXY_PROTOCOL_TIMEOUT', 5000);
+  }
+
+  /**
+   * Used by the upgrade tunnel middleware.
+   *
+   * Specifies the max amount of time a tunnel can be idle before it is closed.
+   * @note This is in milliseconds.
+   */
+  public static get upgradeTunnelIdleTimeout(): number {
+    return this._getSettingOrDefault('UPGRADE_TUNNEL_IDLE_TIMEOUT', 120000);
+  }
+
+  /**
+   * Used by the request body middleware.
+   *
+   * The max size of a request body in bytes, unless a request body rule overrides it.
+   * @note A value of 0 or less means there is no limit.
+   */
+  public static get requestBodyMaxSize(): number {
+    return this._getSettingOrDefault('REQUEST_BODY_MAX_SIZE', 5 * 1024 * 1024 * 1024);
+  }
+
+  /**
+   * Used by the request body middleware.
+   *
+   * If true, request bodies will be buffered into memory rather than streamed to the downstream.
+   * @note Request bodies will always be buffered if they are needed for google analytics events.
+   */
+  public static get requestBodyBuffer(): boolean {
+    return this._getSettingOrDefault('REQUEST_BODY_BUFFER', false);
+  }
+
+  /**
+   * Used by the request body rules reader.
+   *
+   * Represents the fileName of the request body rules file.
+   */
+  public static get requestBodyRulesFileName(): string {
+    return this._getSettingOrDefault('REQUEST_BODY_RULES_FILE_NAME', 'request-body-rules.yml');
+  }
+
+  /**
+   * Used by the request body rules reader.
+   *
+   * Represents the base directory for the request body rules files.
+   */
+  public static get requestBodyRulesBaseDirectory(): string {
+    return this._getSettingOrDefault('REQUEST_BODY_RULES_BASE_DIRECTORY', projectDirectoryName);
+  }
+
+  /**
+   * Used by the request body rules reader.
+   *
+   * If true, it will reload the request body rules file on each request.
+   */
+  public static get requestBodyRulesReloadOnRequest(): boolean {
+    return this._getSettingOrDefault('REQUEST_BODY_RULES_RELOAD_ON_REQUEST', false);
+  }
+
+  /**
+   * Used by the set cookie rewriter.
+   *
+   * If true, the Domain of cookies set by production will be rewritten to the test site the client is on.
+   */
+  public static get setCookieRewriteDomain(): boolean {
+    return this._getSettingOrDefault('SET_COOKIE_REWRITE_DOMAIN', true);
+  }
+
+  /**
+   * Used by the set cookie rewriter.
+   *
+   * A prefix prepended to the Path of every cookie, for when the proxy is served under a path. Empty means the Path
+   * is not changed.
+   */
+  public static get setCookiePathPrefix(): string {
+    return this._getSettingOrDefault('SET_COOKIE_PATH_PREFIX', '');
+  }
+
+  /**
+   * Used by the set cookie rewriter.
+   *
+   * If true, the Secure attribute is removed from cookies sent to clients over http, and SameSite=None becomes
+   * SameSite=Lax, as browsers would drop those cookies otherwise.
+   */
+  public static get setCookieDowngradeSecure(): boolean {
+    return this._getSettingOrDefault('SET_COOKIE_DOWNGRADE_SECURE', true);
+  }
+
+  /**
+   * Used by the body rewriter.
+   *
+   * If true, production hostnames in response bodies will be rewritten to the test site the client is on.
+   */
+  public static get enableBodyRewriting(): boolean {
+    return this._getSettingOrDefault('ENABLE_BODY_REWRITING', false);
+  }
+
+  /**
+   * Used by the body rewriter.
+   *
+   * The content types of the response bodies that will be rewritten.
+   */
+  public static get bodyRewritingContentTypes(): string[] {
+    return this._getSettingOrDefault('BODY_REWRITING_CONTENT_TYPES', [
+      'text/html',
+      'text/css',
+      'text/javascript',
+      'application/javascript',
+      'application/json',
+    ]);
+  }
+
+  /**
+   * Used by the send axios request middleware.
+   *
+   * Rewritten response bodies up to this size are buffered, so they can be sent with a content-length. Larger ones
+   * (or ones without a content-length) are streamed. 0 means they are always streamed.
+   * @note This is in bytes, and is compared against the content-length before the body is rewritten.
+   */
+  public static get bodyRewritingMaxBufferSize(): number {
+    return this._getSettingOrDefault('BODY_REWRITING_MAX_BUFFER_SIZE', 1024 * 1024);
+  }
+
+  /**
+   * Used by the retry policy.
+   *
+   * The max amount of times a failed downstream request will be retried.
+   * @note Retries are always bounded by SEND_AXIOS_REQUEST_TIMEOUT, which is the time budget for all attempts.
+   */
+  public static get sendAxiosRequestMaxRetries(): number {
+    return this._getSettingOrDefault('SEND_AXIOS_REQUEST_MAX_RETRIES', 2);
+  }
+
+  /**
+   * Used by the retry policy.
+   *
+   * The error codes that will cause a downstream request to be retried.
+   */
+  public static get sendAxiosRequestRetriableErrorCodes(): string[] {
+    return this._getSettingOrDefault('SEND_AXIOS_REQUEST_RETRIABLE_ERROR_CODES', [
+      'ECONNRESET',
+      'ECONNREFUSED',
+      'EPIPE',
+      'EAI_AGAIN',
+      'ERR_DOWNSTREAM_CONNECT_TIMEOUT',
+    ]);
+  }
+
+  /**
+   * Used by the retry policy.
+   *
+   * The downstream response status codes that will cause a downstream request to be retried.
+   */
+  public static get sendAxiosRequestRetriableStatusCodes(): number[] {
+    return this._getSettingOrDefault('SEND_AXIOS_REQUEST_RETRIABLE_STATUS_CODES', ['502', '503', '504']).map(
+      (statusCode) => parseInt(statusCode, 10),
+    );
+  }
+
+  /**
+   * Used by the retry policy.
+   *
+   * The base delay of the exponential backoff between retries, the delay is doubled after each attempt.
+   * @note This is in milliseconds.
+   */
+  public static get sendAxiosRequestRetryBaseDelay(): number {
+    return this._getSettingOrDefault('SEND_AXIOS_REQUEST_RETRY_BASE_DELAY', 100);
+  }
+
+  /**
+   * Used by the retry policy.
+   *
+   * The max delay of the exponential backoff between retries.
+   * @note This is in milliseconds.
+   */
+  public static get sendAxiosRequestRetryMaxDelay(): number {
+    return this._getSettingOrDefault('SEND_AXIOS_REQUEST_RETRY_MAX_DELAY', 2000);
+  }
+
+  /**
+   * Used by the circuit breaker.
+   *
+   * If true, requests to a downstream hostname will fail fast with a 503 while it is unhealthy.
+   */
+  public static get enableCircuitBreaker(): boolean {
+    return this._getSettingOrDefault('ENABLE_CIRCUIT_BREAKER', true);
+  }
+
+  /**
+   * Used by the circuit breaker.
+   *
+   * The percentage of failed requests within the window that will open the circuit for a downstream hostname.
+   */
+  public static get circuitBreakerFailurePercentage(): number {
+    return this._getSettingOrDefault('CIRCUIT_BREAKER_FAILURE_PERCENTAGE', 50);
+  }
+
+  /**
+   * Used by the circuit breaker.
+   *
+   * The min amount of requests within the window before the circuit for a downstream hostname can open.
+   */
+  public static get circuitBreakerMinimumRequests(): number {
+    return this._getSettingOrDefault('CIRCUIT_BREAKER_MINIMUM_REQUESTS', 20);
+  }
+
+  /**
+   * Used by the circuit breaker.
+   *
+   * The size of the sliding window that failed requests are counted in.
+   * @note This is in milliseconds, with a resolution of one second.
+   */
+  public static get circuitBreakerWindow(): number {
+    return this._getSettingOrDefault('CIRCUIT_BREAKER_WINDOW', 10000);
+  }
+
+  /**
+   * Used by the circuit breaker.
+   *
+   * Specifies how long the circuit for a downstream hostname stays open before trial requests are let through.
+   * @note This is in milliseconds.
+   */
+  public static get circuitBreakerOpenDuration(): number {
+    return this._getSettingOrDefault('CIRCUIT_BREAKER_OPEN_DURATION', 30000);
+  }
+
+  /**
+   * Used by the circuit breaker.
+   *
+   * The amount of trial requests let through while the circuit is half-open, they all have to succeed for the
+   * circuit to close.
+   */
+  public static get circuitBreakerHalfOpenMaxRequests(): number {
+    return this._getSettingOrDefault('CIRCUIT_BREAKER_HALF_OPEN_MAX_REQUESTS', 1);
+  }
+
+  /**
+   * Used by the send axios request middleware.
+   *
+   * The downstream response status codes that count as failures for the circuit breaker.
+   */
+  public static get circuitBreakerFailureStatusCodes(): number[] {
+    return this._getSettingOrDefault('CIRCUIT_BREAKER_FAILURE_STATUS_CODES', ['502', '503', '504']).map(
+      (statusCode) => parseInt(statusCode, 10),
+    );
+  }
+
+  /**
+   * Used by the retry rules reader.
+   *
+   * Represents the fileName of the retry rules file.
+   */
+  public static get retryRulesFileName(): string {
+    return this._getSettingOrDefault('RETRY_RULES_FILE_NAME', 'retry-rules.yml');
+  }
+
+  /**
+   * Used by the retry rules reader.
+   *
+   * Represents the base directory for the retry rules files.
+   */
+  public static get retryRulesBaseDirectory(): string {
+    return this._getSettingOrDefault('RETRY_RULES_BASE_DIRECTORY', projectDirectoryName);
+  }
+
+  /**
+   * Used by the retry rules reader.
+   *
+   * If true, it will reload the retry rules file on each request.
+   */
+  public static get retryRulesReloadOnRequest(): boolean {
+    return this._getSettingOrDefault('RETRY_RULES_RELOAD_ON_REQUEST', false);
+  }
+
+  /**
+   * Used by the timeout profile rules reader.
+   *
+   * Represents the fileName of the timeout profile rules file.
+   */
+  public static get timeoutProfileRulesFileName(): string {
+    return this._getSettingOrDefault('TIMEOUT_PROFILE_RULES_FILE_NAME', 'timeout-profile-rules.yml');
+  }
+
+  /**
+   * Used by the timeout profile rules reader.
+   *
+   * Represents the base directory for the timeout profile rules files.
+   */
+  public static get timeoutProfileRulesBaseDirectory(): string {
+    return this._getSettingOrDefault('TIMEOUT_PROFILE_RULES_BASE_DIRECTORY', projectDirectoryName);
+  }
+
+  /**
+   * Used by the traffic mirror rules reader.
+   *
+   * Represents the fileName of the traffic mirror rules file.
+   */
+  public static get trafficMirrorRulesFileName(): string {
+    return this._getSettingOrDefault('TRAFFIC_MIRROR_RULES_FILE_NAME', 'traffic-mirror-rules.yml');
+  }
+
+  /**
+   * Used by the traffic mirror rules reader.
+   *
+   * Represents the base directory for the traffic mirror rules files.
+   */
+  public static get trafficMirrorRulesBaseDirectory(): string {
+    return this._getSettingOrDefault('TRAFFIC_MIRROR_RULES_BASE_DIRECTORY', projectDirectoryName);
+  }
+
+  /**
+   * Used by the traffic mirror.
+   *
+   * The max amount of mirrored requests that can be in flight at once, any more are dropped, so a slow shadow
+   * downstream can't pile up connections.
+   */
+  public static get trafficMirrorMaxInFlight(): number {
+    return this._getSettingOrDefault('TRAFFIC_MIRROR_MAX_IN_FLIGHT', 100);
+  }
+
+  /**
+   * Used by the response differ.
+   *
+   * Represents the directory the response diff reports are written to.
+   */
+  public static get responseDiffReportDirectory(): string {
+    return this._getSettingOrDefault('RESPONSE_DIFF_REPORT_DIRECTORY', path.join(projectDirectoryName, 'logs'));
+  }
+
+  /**
+   * Used by the response differ.
+   *
+   * Represents the fileName of the JSONL file the response diff reports are appended to.
+   */
+  public static get responseDiffReportFileName(): string {
+    return this._getSettingOrDefault('RESPONSE_DIFF_REPORT_FILE_NAME', 'response-diffs.jsonl');
+  }
+
+  /**
+   * Used by the traffic mirror.
+   *
+   * The max size of a response body that is compared in diff mode, in bytes. Larger bodies are still sent to the
+   * client, but only their status and headers are compared.
+   */
+  public static get responseDiffMaxBodySize(): number {
+    return this._getSettingOrDefault('RESPONSE_DIFF_MAX_BODY_SIZE', 1024 * 1024);
+  }
+
+  /**
+   * Used by the client certificate rules reader.
+   *
+   * Represents the fileName of the client certificate rules file.
+   */
+  public static get clientCertificateRulesFileName(): string {
+    return this._getSettingOrDefault('CLIENT_CERTIFICATE_RULES_FILE_NAME', 'client-certificate-rules.yml');
+  }
+
+  /**
+   * Used by the client certificate rules reader.
+   *
+   * Represents the base directory for the client certificate rules files.
+   * @note The certificates and keys in the rules are relative to the SSL base directory, not this one.
+   */
+  public static get clientCertificateRulesBaseDirectory(): string {
+    return this._getSettingOrDefault('CLIENT_CERTIFICATE_RULES_BASE_DIRECTORY', projectDirectoryName);
+  }
+
+  /**
+   * Used by the trust store.
+   *
+   * Represents the extra certificate authority bundles that are trusted on top of the system ones, either as PEM
+   * contents or as paths relative to the SSL base directory.
+   */
+  public static get certificateValidationCaBundles(): string[] {
+    return this._getSettingOrDefault('CERTIFICATE_VALIDATION_CA_BUNDLES', []);
+  }
+
+  /**
+   * Used by the certificate validation rules reader.
+   *
+   * Represents the fileName of the certificate validation rules file.
+   */
+  public static get certificateValidationRulesFileName(): string {
+    return this._getSettingOrDefault('CERTIFICATE_VALIDATION_RULES_FILE_NAME', 'certificate-validation-rules.yml');
+  }
+
+  /**
+   * Used by the certificate validation rules reader.
+   *
+   * Represents the base directory for the certificate validation rules files.
+   */
+  public static get certificateValidationRulesBaseDirectory(): string {
+    return this._getSettingOrDefault('CERTIFICATE_VALIDATION_RULES_BASE_DIRECTORY', projectDirectoryName);
+  }
+
+  /**
+   * Used by the egress proxy rules reader.
+   *
+   * Represents the fileName of the egress proxy rules file.
+   */
+  public static get egressProxyRulesFileName(): string {
+    return this._getSettingOrDefault('EGRESS_PROXY_RULES_FILE_NAME', 'egress-proxy-rules.yml');
+  }
+
+  /**
+   * Used by the egress proxy rules reader.
+   *
+   * Represents the base directory for the egress proxy rules files.
+   */
+  public static get egressProxyRulesBaseDirectory(): string {
+    return this._getSettingOrDefault('EGRESS_PROXY_RULES_BASE_DIRECTORY', projectDirectoryName);
+  }
+
+  /**
+   * Used by the egress proxy.
+   *
+   * The downstreams that are always connected to directly, like NO_PROXY. Either hostnames, which also exclude their
+   * subdomains, addresses, CIDR ranges or * for every downstream.
+   */
+  public static get egressProxyExclusions(): string[] {
+    return this._getSettingOrDefault('EGRESS_PROXY_EXCLUSIONS', []);
+  }
+
+  /**
+   * Used by the response cache.
+   *
+   * If true, cacheable responses will be stored and served without going to the downstream.
+   */
+  public static get enableResponseCache(): boolean {
+    return this._getSettingOrDefault('ENABLE_RESPONSE_CACHE', false);
+  }
+
+  /**
+   * Used by the response cache.
+   *
+   * The downstream hostnames responses are cached for, * means every hostname.
+   */
+  public static get responseCacheHostnames(): string[] {
+    return this._getSettingOrDefault('RESPONSE_CACHE_HOSTNAMES', ['*']);
+  }
+
+  /**
+   * Used by the response cache.
+   *
+   * The max size of all responses cached in memory, in bytes.
+   */
+  public static get responseCacheMemoryMaxSize(): number {
+    return this._getSettingOrDefault('RESPONSE_CACHE_MEMORY_MAX_SIZE', 64 * 1024 * 1024);
+  }
+
+  /**
+   * Used by the response cache.
+   *
+   * The max size of all responses cached on disk, in bytes. 0 disables the disk cache.
+   */
+  public static get responseCacheDiskMaxSize(): number {
+    return this._getSettingOrDefault('RESPONSE_CACHE_DISK_MAX_SIZE', 1024 * 1024 * 1024);
+  }
+
+  /**
+   * Used by the response cache.
+   *
+   * Represents the directory responses are cached on disk in.
+   */
+  public static get responseCacheDiskDirectory(): string {
+    return this._getSettingOrDefault('RESPONSE_CACHE_DISK_DIRECTORY', path.join(projectDirectoryName, 'cache'));
+  }
+
+  /**
+   * Used by the response cache.
+   *
+   * The max size of a single cached response, in bytes. Larger responses are not cached.
+   */
+  public static get responseCacheMaxEntrySize(): number {
+    return this._getSettingOrDefault('RESPONSE_CACHE_MAX_ENTRY_SIZE', 10 * 1024 * 1024);
+  }
+
+  /**
+   * Used by the agent pool.
+   *
+   * The max amount of sockets each downstream agent can have open at once.
+   */
+  public static get upstreamAgentMaxSockets(): number {
+    return this._getSettingOrDefault('UPSTREAM_AGENT_MAX_SOCKETS', 256);
+  }
+
+  /**
+   * Used by the agent pool.
+   *
+   * The max amount of idle sockets each downstream agent will keep open.
+   */
+  public static get upstreamAgentMaxFreeSockets(): number {
+    return this._getSettingOrDefault('UPSTREAM_AGENT_MAX_FREE_SOCKETS', 64);
+  }
+
+  /**
+   * Used by the agent pool.
+   *
+   * Specifies how long an idle socket is kept open before it is closed.
+   * @note This is in milliseconds.
+   */
+  public static get upstreamAgentKeepAliveTimeout(): number {
+    return this._getSettingOrDefault('UPSTREAM_AGENT_KEEP_ALIVE_TIMEOUT', 30000);
+  }
+
+  /**
+   * Used by the agent pool.
+   *
+   * The max amount of TLS sessions each downstream agent will cache for resumption.
+   */
+  public static get upstreamAgentMaxCachedTlsSessions(): number {
+    return this._getSettingOrDefault('UPSTREAM_AGENT_MAX_CACHED_TLS_SESSIONS', 100);
+  }
+
+  /**
+   * Used by the agent pool.
+   *
+   * Specifies how often the utilization of each downstream agent is logged, 0 disables it.
+   * @note This is in milliseconds.
+   */
+  public static get upstreamAgentPoolLogInterval(): number {
+    return this._getSettingOrDefault('UPSTREAM_AGENT_POOL_LOG_INTERVAL', 60000);
+  }
+
+  /**
+   * Used by the HTTP/2 transport.
+   *
+   * If true, requests to https downstreams are sent over HTTP/2 if they negotiate it, otherwise HTTP/1.1 is used.
+   */
+  public static get enableUpstreamHttp2(): boolean {
+    return this._getSettingOrDefault('ENABLE_UPSTREAM_HTTP2', false);
+  }
+
+  /**
+   * Used by the HTTP/2 transport.
+   *
+   * The downstream hostnames that are always sent requests over HTTP/1.1.
+   */
+  public static get upstreamHttp2DisabledHostnames(): string[] {
+    return this._getSettingOrDefault('UPSTREAM_HTTP2_DISABLED_HOSTNAMES', []);
+  }
+
+  /**
+   * Used by the HTTP/2 session pool.
+   *
+   * Specifies how long a session without any activity is kept open before it is closed.
+   * @note This is in milliseconds.
+   */
+  public static get upstreamHttp2SessionIdleTimeout(): number {
+    return this._getSettingOrDefault('UPSTREAM_HTTP2_SESSION_IDLE_TIMEOUT', 30000);
+  }
+
+  /**
+   * Used by the error responder.
+   *
+   * Represents the directory of the HTML templates for error responses, e.g. `504.html` for gateway timeouts, or
+   * `default.html` for any status without its own template. If null, the built-in error pages are used.
+   * @note The templates can use the {{status}}, {{title}}, {{code}}, {{message}} and {{requestId}} placeholders.
+   */
+  public static get errorTemplatesDirectory(): string {
+    return this._getSettingOrDefault('ERROR_TEMPLATES_DIRECTORY', null);
+  }
+
+  /**
+   * Used by the error middleware.
+   *
+   * A list of IPv4 CIDRs that are shown the message and stack of unexpected errors, everyone else only gets the
+   * request ID to look the error up with in the logs.
+   */
+  public static get verboseErrorsAllowedIPv4Cidrs(): string[] {
+    return this._getSettingOrDefault('VERBOSE_ERRORS_ALLOWED_IPV4_CIDRS', []);
+  }
+
+  /**
+   * Used by the error middleware.
+   *
+   * A list of IPv6 CIDRs that are shown the message and stack of unexpected errors, everyone else only gets the
+   * request ID to look the error up with in the logs.
+   */
+  public static get verboseErrorsAllowedIPv6Cidrs(): string[] {
+    return this._getSettingOrDefault('VERBOSE_ERRORS_ALLOWED_IPV6_CIDRS', []);
+  }
+
   /**
    * Used by the health check middleware.
    *
@@ -22,6 +22,8 @@
 
 export {};
 
+import requestContext from '@lib/context';
+
 import * as net from 'net';
 import * as tls from 'tls';
 
@@ -43,12 +45,12 @@ declare global {
       getSocket(): net.Socket | tls.TLSSocket;
 
       /**
-       * A map of request context.
+       * The context of the request, this is isolated to the request.
        *
-       * @type {Map<string, any>}
+       * @type {requestContext}
        * @memberof Request
        */
-      get context(): Map<string, unknown>;
+      get context(): requestContext;
 
       /**
        * Fires a google analytics event.
@@ -74,6 +76,22 @@ declare global {
        * @memberof Request
        */
       get realIp(): string;
+
+      /**
+       * The ID of the request, this is generated once per request and included in error responses.
+       *
+       * @type {string}
+       * @memberof Request
+       */
+      get requestId(): string;
+
+      /**
+       * Set by node if this request was dispatched from the server's upgrade event.
+       *
+       * @type {boolean}
+       * @memberof Request
+       */
+      readonly upgrade: boolean;
     }
   }
 }
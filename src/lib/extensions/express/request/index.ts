@@ -25,6 +25,7 @@
 
 export {};
 
+import requestContext from '@lib/context';
 import environment from '@lib/environment';
 import webUtility from '@lib/utility/web_utility';
 import googleAnalytics from '@lib/utility/google_analytics';
@@ -55,16 +56,17 @@ if (!express.request.hasOwnProperty('localPort')) {
 }
 
 // Method: context
-// Description: Returns the context of the request.
+// Description: Returns the context of the request, this is created per request.
 // Language: typescript
-if (!express.request.hasOwnProperty('_requestContext')) {
-  Object.defineProperty(express.request, '_requestContext', {
-    value: new Map(),
-  });
-}
 if (!express.request.hasOwnProperty('context')) {
   Object.defineProperty(express.request, 'context', {
     get: function getContext() {
+      if (!this.hasOwnProperty('_requestContext')) {
+        Object.defineProperty(this, '_requestContext', {
+          value: new requestContext(),
+        });
+      }
+
       return this._requestContext;
     },
   });
@@ -84,7 +86,7 @@ if (!express.request.hasOwnProperty('fireEvent')) {
       if (!context.has('ga')) {
         const obj = {
           category: `Proxy_${webUtility.generateUUIDV4()}`,
-        } as any;
+        } as { category: string; baseGaString: string };
 
         obj.baseGaString = label;
 
@@ -136,3 +138,16 @@ if (!express.request.hasOwnProperty('realIp')) {
     },
   });
 }
+
+// Method: requestId
+// Description: Returns the ID of the request, this is generated once per request.
+// Language: typescript
+if (!express.request.hasOwnProperty('requestId')) {
+  Object.defineProperty(express.request, 'requestId', {
+    get: function getRequestId() {
+      if (!this.context.has('requestId')) this.context.set('requestId', webUtility.generateUUIDV4());
+
+      return this.context.get('requestId');
+    },
+  });
+}
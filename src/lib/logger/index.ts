@@ -27,6 +27,7 @@
 // Project imports
 ////////////////////////////////////////////////////////////////////////////////
 
+import requestContext from '@lib/context';
 import environment from '@lib/environment';
 import { projectDirectoryName } from '@lib/directories';
 
@@ -223,6 +224,17 @@ export default class Logger {
     return process.uptime().toFixed(7);
   }
 
+  /**
+   * @internal This is a private member.
+   */
+  private static _prefixRequestId(message: string): string {
+    // Lines logged while handling a request are prefixed with its ID, so they can be correlated.
+    const requestId = requestContext.current?.get('requestId');
+    if (requestId === undefined) return message;
+
+    return util.format('[%s] %s', requestId, message);
+  }
+
   /**
    * @internal This is a private member.
    */
@@ -255,6 +267,8 @@ export default class Logger {
       formattedMessage = util.format('%s', Logger._formatStackTrace(new Error(formattedMessage).stack));
     }
 
+    formattedMessage = Logger._prefixRequestId(formattedMessage);
+
     if (this._cutLogPrefix) {
       return util.format(
         '[%s][%s][%s][%s][%s] %s\n',
@@ -336,6 +350,8 @@ export default class Logger {
       formattedMessage = util.format('%s', Logger._formatStackTrace(new Error(formattedMessage).stack));
     }
 
+    formattedMessage = Logger._prefixRequestId(formattedMessage);
+
     const message = util.format(
       '%s[%s%s%s] %s%s%s',
       this._getSharedColorStringPrefix(),
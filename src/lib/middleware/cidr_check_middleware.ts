@@ -26,6 +26,8 @@ import '@lib/extensions/express/response';
 
 import logger from '@lib/logger';
 import environment from '@lib/environment';
+import { ErrorCode } from '@lib/responders/error_code';
+import errorResponder from '@lib/responders/error_responder';
 
 import net from '@mfdlabs/net';
 import { NextFunction, Request, Response } from 'express';
@@ -63,11 +65,12 @@ export default class CidrCheckMiddleware {
         return;
       }
 
-      response.noCache();
-      response.contentType('text/html');
-      response.status(403);
-      response.send(
-        '<html><body><h1>403 Forbidden</h1><p>IP Address validation failed. Your IP address is not allowed to access this site.</p></body></html>',
+      errorResponder.invoke(
+        request,
+        response,
+        403,
+        ErrorCode.AddressNotAllowed,
+        'IP Address validation failed. Your IP address is not allowed to access this site.',
       );
 
       return;
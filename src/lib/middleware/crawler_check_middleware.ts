@@ -26,6 +26,8 @@ import '@lib/extensions/express/response';
 import logger from '@lib/logger';
 import environment from '@lib/environment';
 import webUtility from '@lib/utility/web_utility';
+import { ErrorCode } from '@lib/responders/error_code';
+import errorResponder from '@lib/responders/error_responder';
 
 import { NextFunction, Request, Response } from 'express';
 
@@ -56,11 +58,12 @@ export default class CrawlerCheckMiddleware {
         return;
       }
 
-      response.noCache();
-      response.contentType('text/html');
-      response.status(403);
-      response.send(
-        '<html><body><h1>403 Forbidden</h1><p>Crawlers are not allowed to access this site. Please use a browser instead.</p></body></html>',
+      errorResponder.invoke(
+        request,
+        response,
+        403,
+        ErrorCode.CrawlerNotAllowed,
+        'Crawlers are not allowed to access this site. Please use a browser instead.',
       );
       return;
     }
@@ -25,9 +25,10 @@ import '@lib/extensions/express/response';
 
 import logger from '@lib/logger';
 import environment from '@lib/environment';
+import { ErrorCode } from '@lib/responders/error_code';
+import errorResponder from '@lib/responders/error_responder';
 
 import net from '@mfdlabs/net';
-import htmlEncode from 'escape-html';
 import { NextFunction, Request, Response } from 'express';
 
 const denyLocalAreaNetworkAccessLogger = new logger(
@@ -49,11 +50,11 @@ export default class DenyLocalAreaNetworkAccessMiddleware {
   public static invoke(request: Request, response: Response, next: NextFunction): void {
     if (!environment.hateLocalAreaNetworkAccess) return next();
 
-    const hostname = request.context.get('hostname') as string;
+    const hostname = request.context.get('hostname');
 
     // We assume these request context variables are set before, as the last middleware
     // should exit the context if they're malformed.
-    const resolvedAddress = request.context.get('resolvedAddress') as string;
+    const resolvedAddress = request.context.get('resolvedAddress');
 
     if (this._isUniqueLocalAddress(resolvedAddress)) {
       this._handleLocalAreaNetworkAccess(hostname, resolvedAddress, request, response);
@@ -88,13 +89,10 @@ export default class DenyLocalAreaNetworkAccessMiddleware {
     if (hostname === resolvedAddres) {
       message = 'Access to that address is forbidden.';
     } else {
-      message = `Access to the address that ${htmlEncode(hostname)} resolved to is forbidden.`;
+      message = `Access to the address that ${hostname} resolved to is forbidden.`;
     }
 
-    response.status(403);
-    response.contentType('text/html');
-    response.noCache();
-    response.send(`<html><body><h1>403 Forbidden</h1><p>${message}</p></body></html>`);
+    errorResponder.invoke(request, response, 403, ErrorCode.LocalAreaNetworkAccessDenied, message, { hostname });
   }
 
   private static _isUniqueLocalAddress(address: string): boolean {
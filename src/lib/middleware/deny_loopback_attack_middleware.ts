@@ -25,9 +25,10 @@ import '@lib/extensions/express/response';
 
 import logger from '@lib/logger';
 import environment from '@lib/environment';
+import { ErrorCode } from '@lib/responders/error_code';
+import errorResponder from '@lib/responders/error_responder';
 
 import net from '@mfdlabs/net';
-import htmlEncode from 'escape-html';
 import { NextFunction, Request, Response } from 'express';
 
 const denyLoopbackAttackLogger = new logger(
@@ -47,8 +48,8 @@ export default class DenyLoopbackAttackMiddleware {
    * @returns {void} Nothing.
    */
   public static invoke(request: Request, response: Response, next: NextFunction): void {
-    const hostname = request.context.get('hostname') as string;
-    const resolvedAddress = request.context.get('resolvedAddress') as string;
+    const hostname = request.context.get('hostname');
+    const resolvedAddress = request.context.get('resolvedAddress');
 
     if (this._isConsideredLoopback(resolvedAddress, request.publicIp)) {
       this._handleLoopbackAttack(hostname, resolvedAddress, request, response);
@@ -78,14 +79,13 @@ export default class DenyLoopbackAttackMiddleware {
     );
     request.fireEvent('LoopbackAttack');
 
-    const encodedClientIp = htmlEncode(request.ip);
-    const encodedHostname = htmlEncode(hostname);
-
-    response.status(403);
-    response.contentType('text/html');
-    response.noCache();
-    response.send(
-      `<html><body><h1>403 Forbidden</h1><p>Loopback detected from upstream client '${encodedClientIp}' to downstream server '${encodedHostname}'.</p></body></html>`,
+    errorResponder.invoke(
+      request,
+      response,
+      403,
+      ErrorCode.LoopbackDetected,
+      `Loopback detected from upstream client '${request.ip}' to downstream server '${hostname}'.`,
+      { hostname },
     );
   }
 
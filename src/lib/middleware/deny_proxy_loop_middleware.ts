@@ -0,0 +1,75 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: deny_proxy_loop_middleware.ts
+    Description: Denies requests that already passed through this proxy, which would otherwise be proxied back to
+                 it until the connections run out.
+    Written by: Nikita Petko
+*/
+
+import '@lib/extensions/express/request';
+import '@lib/extensions/express/response';
+
+import logger from '@lib/logger';
+import environment from '@lib/environment';
+import viaHeader from '@lib/proxy/via_header';
+import { ErrorCode } from '@lib/responders/error_code';
+import errorResponder from '@lib/responders/error_responder';
+
+import { NextFunction, Request, Response } from 'express';
+
+const denyProxyLoopLogger = new logger(
+  'deny-proxy-loop-middleware',
+  environment.logLevel,
+  environment.logToFileSystem,
+  environment.logToConsole,
+  environment.loggerCutPrefix,
+);
+
+export default class DenyProxyLoopMiddleware {
+  /**
+   * Invokes the middleware.
+   * @param {Request} request The request object.
+   * @param {Response} response The response object.
+   * @param {NextFunction} next The next function to call.
+   * @returns {void} Nothing.
+   */
+  public static invoke(request: Request, response: Response, next: NextFunction): void {
+    // The loopback middleware only catches loops through addresses of this machine, not ones through other proxies,
+    // load balancers or DNS names that resolve back to us.
+    if (!viaHeader.containsSelf(request.headers.via)) return next();
+
+    const hostname = request.context.get('hostname');
+
+    denyProxyLoopLogger.warning(
+      'Request from client \'%s\' to \'%s\' already passed through this proxy (Via: %s), responding with loop error',
+      request.ip,
+      hostname,
+      request.headers.via,
+    );
+    request.fireEvent('ProxyLoop');
+
+    errorResponder.invoke(
+      request,
+      response,
+      508,
+      ErrorCode.ProxyLoopDetected,
+      `Proxy loop detected from upstream client '${request.ip}' to downstream server '${hostname}'.`,
+      { hostname },
+    );
+  }
+}
@@ -17,16 +17,33 @@
 /*
     File Name: error_middleware.ts
     Description: A middleware that handles errors.
+                 Unexpected errors are logged with their stack, the client only gets the request ID to look them up
+                 with, unless it is in VERBOSE_ERRORS_ALLOWED_IPV4_CIDRS or VERBOSE_ERRORS_ALLOWED_IPV6_CIDRS.
     Written by: Nikita Petko
 */
 
+import '@lib/extensions/express/request';
 import '@lib/extensions/express/response';
 
+import logger from '@lib/logger';
+import environment from '@lib/environment';
+import { ErrorCode } from '@lib/responders/error_code';
 import googleAnalytics from '@lib/utility/google_analytics';
+import errorResponder from '@lib/responders/error_responder';
+import downstreamErrorClassifier from '@lib/proxy/downstream_error_classifier';
 
-import htmlEncode from 'escape-html';
+import net from '@mfdlabs/net';
+import { AxiosError } from 'axios';
 import { NextFunction, Request, Response } from 'express';
 
+const errorLogger = new logger(
+  'error-middleware',
+  environment.logLevel,
+  environment.logToFileSystem,
+  environment.logToConsole,
+  environment.loggerCutPrefix,
+);
+
 export default class ErrorMiddleware {
   /**
    * Invokes the middleware.
@@ -38,20 +55,68 @@ export default class ErrorMiddleware {
    */
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   public static invoke(error: Error, request: Request, response: Response, _next: NextFunction): void {
-    const errorStack = htmlEncode(error instanceof Error ? error.stack : 'Unknown error')
-      .replace(/\n/g, '<br>')
-      .replace(/\t/g, '&nbsp;&nbsp;&nbsp;&nbsp;')
-      .replace(/ /g, '&nbsp;');
-    const encodedUri = htmlEncode(`${request.protocol}://${request.hostname}${request.originalUrl}`);
-
-    // Log the error
-    googleAnalytics.fireServerEventGA4('Server', 'Error', error?.stack ?? 'Unknown error');
-
-    response.noCache();
-    response.contentType('text/html');
-    response.status(500);
-    response.send(
-      `<html><body><h1>500 Internal Server Error</h1><p>An error occurred when sending a request to the upstream URI: ${encodedUri}</p><p><b>${errorStack}</b></p></body></html>`,
+    const requestId = request.requestId;
+    const code = (error as NodeJS.ErrnoException)?.code;
+    const uri = (error as AxiosError)?.config?.url ?? `${request.protocol}://${request.hostname}${request.originalUrl}`;
+
+    errorLogger.error(
+      'Error for request \'%s\' from client \'%s\' to URI \'%s\': %s',
+      requestId,
+      request.ip,
+      uri,
+      error instanceof Error ? error.stack : 'Unknown error',
+    );
+
+    // The stack stays in the logs, it can contain anything.
+    googleAnalytics.fireServerEventGA4(
+      'Server',
+      'Error',
+      `Request ${requestId}: ${error instanceof Error ? error.name : 'Unknown error'}${code ? ` (${code})` : ''}`,
+    );
+
+    // Part of the response was already sent, so all we can do is make sure the client doesn't think it's complete.
+    if (response.headersSent) {
+      response.destroy();
+      return;
+    }
+
+    const timing = Date.now() - (request.context.get('startTime') ?? Date.now());
+    const classification = downstreamErrorClassifier.classify(code, uri, timing);
+
+    if (classification !== undefined) {
+      errorResponder.invoke(request, response, classification.status, classification.code, classification.message, {
+        uri,
+        timing,
+        reason: code,
+      });
+      return;
+    }
+
+    if (this._isVerbose(request)) {
+      errorResponder.invoke(
+        request,
+        response,
+        500,
+        ErrorCode.InternalError,
+        `An error occurred when sending a request to the upstream URI: ${uri}`,
+        { stack: error instanceof Error ? error.stack : 'Unknown error' },
+      );
+      return;
+    }
+
+    errorResponder.invoke(
+      request,
+      response,
+      500,
+      ErrorCode.InternalError,
+      `An unexpected error occurred, include the request ID '${requestId}' when reporting it.`,
+    );
+  }
+
+  private static _isVerbose(request: Request): boolean {
+    return (
+      net.isIPv4InCidrRangeList(request.ip, environment.verboseErrorsAllowedIPv4Cidrs) ||
+      net.isIPv6InCidrRangeList(request.ip, environment.verboseErrorsAllowedIPv6Cidrs)
     );
   }
 }
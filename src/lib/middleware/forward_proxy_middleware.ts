@@ -0,0 +1,150 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: forward_proxy_middleware.ts
+    Description: Lets clients use this server as their HTTP proxy. Absolute-form requests and CONNECT requests are
+                 turned into the hostname, port and path the rest of the middleware expects, so they go through the
+                 same checks as any other request.
+    Written by: Nikita Petko
+*/
+
+import '@lib/extensions/express/request';
+import '@lib/extensions/express/response';
+
+import logger from '@lib/logger';
+import environment from '@lib/environment';
+import { ErrorCode } from '@lib/responders/error_code';
+import errorResponder from '@lib/responders/error_responder';
+
+import { NextFunction, Request, Response } from 'express';
+
+const forwardProxyLogger = new logger(
+  'forward-proxy-middleware',
+  environment.logLevel,
+  environment.logToFileSystem,
+  environment.logToConsole,
+  environment.loggerCutPrefix,
+);
+
+export default class ForwardProxyMiddleware {
+  /**
+   * Invokes the middleware.
+   * @param {Request} request The request object.
+   * @param {Response} response The response object.
+   * @param {NextFunction} next The next function to call.
+   * @returns {void} Nothing.
+   */
+  public static invoke(request: Request, response: Response, next: NextFunction): void {
+    if (!environment.enableForwardProxy) return next();
+
+    if (request.method === 'CONNECT') {
+      this._handleConnect(request, response, next);
+      return;
+    }
+
+    // Anything else is a regular request, with the hostname in the host header.
+    if (!/^https?:\/\//i.test(request.url)) return next();
+
+    let target: URL;
+
+    try {
+      target = new URL(request.url);
+    } catch {
+      this._handleInvalidTarget(request, response);
+      return;
+    }
+
+    const protocol = target.protocol.slice(0, -1).toLowerCase();
+    const port = target.port ? parseInt(target.port, 10) : protocol === 'https' ? 443 : 80;
+
+    // The target replaces whatever the client put in the host header, see RFC 9112 section 3.2.2.
+    request.headers.host = this._stripBrackets(target.hostname);
+    request.url = request.originalUrl = target.pathname + target.search;
+
+    this._defineProperty(request, 'protocol', protocol);
+    this._defineProperty(request, 'localPort', port);
+
+    next();
+  }
+
+  private static _handleConnect(request: Request, response: Response, next: NextFunction): void {
+    // CONNECT requests only have the authority, e.g. example.com:443 or [::1]:443.
+    const match = /^(\[[0-9a-f:.]+\]|[^:/\s[\]]+):(\d{1,5})$/i.exec(request.originalUrl);
+
+    if (match === null) {
+      this._handleInvalidTarget(request, response);
+      return;
+    }
+
+    const port = parseInt(match[2], 10);
+
+    if (!environment.forwardProxyConnectPorts.includes(port)) {
+      this._handleConnectPortDenied(port, request, response);
+      return;
+    }
+
+    request.headers.host = this._stripBrackets(match[1]);
+
+    this._defineProperty(request, 'localPort', port);
+
+    next();
+  }
+
+  private static _handleInvalidTarget(request: Request, response: Response): void {
+    forwardProxyLogger.warning('Request target \'%s\' from client \'%s\' is invalid.', request.originalUrl, request.ip);
+    request.fireEvent('ForwardProxyInvalidTarget');
+
+    errorResponder.invoke(
+      request,
+      response,
+      400,
+      ErrorCode.InvalidRequest,
+      `The request target '${request.originalUrl}' is invalid.`,
+    );
+  }
+
+  private static _handleConnectPortDenied(port: number, request: Request, response: Response): void {
+    forwardProxyLogger.warning(
+      'Client \'%s\' tried to open a tunnel to port %d, which is not allowed.',
+      request.ip,
+      port,
+    );
+    request.fireEvent('ForwardProxyConnectPortDenied', `Tunnel to port ${port} denied`);
+
+    errorResponder.invoke(
+      request,
+      response,
+      403,
+      ErrorCode.TunnelPortNotAllowed,
+      `Tunnels to port ${port} are not allowed.`,
+      { port },
+    );
+  }
+
+  private static _stripBrackets(hostname: string): string {
+    return hostname.replace(/^\[(.+)\]$/, '$1');
+  }
+
+  // Because request.protocol and request.localPort are just getters, they have to be overridden completely.
+  private static _defineProperty(request: Request, property: string, value: unknown): void {
+    Object.defineProperty(request, property, {
+      configurable: true,
+      enumerable: true,
+      get: () => value,
+    });
+  }
+}
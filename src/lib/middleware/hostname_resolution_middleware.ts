@@ -25,9 +25,10 @@ import '@lib/extensions/express/response';
 
 import logger from '@lib/logger';
 import environment from '@lib/environment';
+import { ErrorCode } from '@lib/responders/error_code';
+import errorResponder from '@lib/responders/error_responder';
 
 import net from '@mfdlabs/net';
-import htmlEncode from 'escape-html';
 import { NextFunction, Request, Response } from 'express';
 
 const hostnameResolutionLogger = new logger(
@@ -94,13 +95,13 @@ export default class HostnameResolutionMiddleware {
     );
     request.fireEvent('NXDomain');
 
-    response.status(503);
-    response.contentType('text/html');
-    response.noCache();
-    response.send(
-      `<html><body><h1>503 Service Unavailable</h1><p>Cannot satisfy request because the hostname ${htmlEncode(
-        hostname,
-      )} could not be resolved.</p></body></html>`,
+    errorResponder.invoke(
+      request,
+      response,
+      503,
+      ErrorCode.HostnameNotResolved,
+      `Cannot satisfy request because the hostname ${hostname} could not be resolved.`,
+      { hostname },
     );
   }
 
@@ -127,11 +128,12 @@ export default class HostnameResolutionMiddleware {
     hostnameResolutionLogger.warning('Request had no host header present, responding with a 400.');
     request.fireEvent('InvalidHostname');
 
-    response.status(400);
-    response.contentType('text/html');
-    response.noCache();
-    response.send(
-      '<html><body><h1>400 Bad Request</h1><p>Cannot satisfy request because the host header is missing.</p></body></html>',
+    errorResponder.invoke(
+      request,
+      response,
+      400,
+      ErrorCode.InvalidRequest,
+      'Cannot satisfy request because the host header is missing.',
     );
   }
 
@@ -46,9 +46,10 @@ export default class LoggingMiddleware {
    */
   public static invoke(request: Request, _response: Response, next: NextFunction): void {
     const localIp = this._getLocalIp(request);
+    const forwardedChain = request.context.get('forwardedChain');
 
     loggingMiddlewareLogger.log(
-      '%s request on URI %s://%s:%d%s (\'%s\') from client \'%s\' (%s).',
+      '%s request on URI %s://%s:%d%s (\'%s\') from client \'%s\' (%s)%s.',
       request.method.toUpperCase(),
       request.protocol,
       localIp,
@@ -57,6 +58,7 @@ export default class LoggingMiddleware {
       request.headers.host || 'No Host Header',
       this._getTruncatedUserAgent(request.headers['user-agent']),
       request.ip,
+      forwardedChain?.length > 1 ? ` forwarded through '${forwardedChain.join(', ')}'` : '',
     );
 
     next();
@@ -16,7 +16,7 @@
 
 /*
     File Name: override_middleware.ts
-    Description: This is the first middleware in the chain. It overrides the response.end method so that it can send the response to the client with lowercase headers.
+    Description: This is the first middleware in the chain after the request context middleware. It overrides the response.writeHead method so that it can send the response to the client with lowercase headers.
     Written by: Nikita Petko
 */
 
@@ -31,9 +31,11 @@ export default class OverrideMiddleware {
    * @returns {void} Nothing.
    */
   public static invoke(request: Request, response: Response, next: NextFunction): void {
-    const oldEnd = response.end;
+    const oldWriteHead = response.writeHead;
 
-    Object.defineProperty(response, 'end', {
+    // Headers are applied in writeHead rather than end, as streamed responses will have
+    // already flushed their headers by the time end is called.
+    Object.defineProperty(response, 'writeHead', {
       writable: true,
       value(this: Response, ...args: unknown[]) {
         response.getHeaderNames().forEach((headerName: string) => {
@@ -49,10 +51,7 @@ export default class OverrideMiddleware {
 
         response.setHeader('date', new Date().toUTCString());
 
-        // Clear request context.
-        request.context.clear();
-
-        oldEnd.apply(this, args);
+        return oldWriteHead.apply(this, args);
       },
     });
 
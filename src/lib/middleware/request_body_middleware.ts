@@ -0,0 +1,186 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: request_body_middleware.ts
+    Description: Determines how the request body is sent to the downstream. By default the body is streamed,
+                 but it can be buffered into memory for anything that needs to read it.
+    Written by: Nikita Petko
+*/
+
+import '@lib/extensions/express/request';
+import '@lib/extensions/express/response';
+
+import logger from '@lib/logger';
+import environment from '@lib/environment';
+import trafficMirror from '@lib/proxy/traffic_mirror';
+import { ErrorCode } from '@lib/responders/error_code';
+import errorResponder from '@lib/responders/error_responder';
+import requestBodyRulesReader from '@lib/proxy/request_body_rules_reader';
+
+import * as stream from 'stream';
+import { AsyncResource } from 'async_hooks';
+import { NextFunction, Request, Response } from 'express';
+
+const requestBodyLogger = new logger(
+  'request-body-middleware',
+  environment.logLevel,
+  environment.logToFileSystem,
+  environment.logToConsole,
+  environment.loggerCutPrefix,
+);
+
+export default class RequestBodyMiddleware {
+  /**
+   * Invokes the middleware.
+   * @param {Request} request The request object.
+   * @param {Response} response The response object.
+   * @param {NextFunction} next The next function to call.
+   * @returns {void} Nothing.
+   */
+  public static invoke(request: Request, response: Response, next: NextFunction): void {
+    if (!this._hasBody(request)) return next();
+
+    const rule = requestBodyRulesReader.getRule(request);
+    const maxBodySize = rule?.maxBodySize ?? environment.requestBodyMaxSize;
+
+    const contentLength = parseInt(request.headers['content-length'], 10);
+    if (maxBodySize > 0 && !isNaN(contentLength) && contentLength > maxBodySize) {
+      this._handleBodyTooLarge(maxBodySize, request, response);
+      return;
+    }
+
+    if (
+      rule?.bufferBody ||
+      environment.requestBodyBuffer ||
+      this._isBodyNeededForAnalytics() ||
+      this._isBodyNeededForMirroring(request)
+    ) {
+      this._bufferBody(maxBodySize, request, response, next);
+      return;
+    }
+
+    request.context.set(
+      'requestBodyStream',
+      maxBodySize > 0 ? this._limitBody(maxBodySize, request, response) : request,
+    );
+
+    next();
+  }
+
+  private static _bufferBody(maxBodySize: number, request: Request, response: Response, next: NextFunction): void {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+
+      if (maxBodySize > 0 && size > maxBodySize) {
+        request.off('data', onData);
+        request.off('end', onEnd);
+        request.pause();
+
+        this._handleBodyTooLarge(maxBodySize, request, response);
+        return;
+      }
+
+      chunks.push(chunk);
+    };
+    const onEnd = () => {
+      request.body = Buffer.concat(chunks, size);
+
+      next();
+    };
+
+    request.on('data', onData);
+    // The socket emits this outside of the request's context, and the rest of the middleware chain runs within it.
+    request.once('end', AsyncResource.bind(onEnd));
+    request.once('error', (error) => {
+      requestBodyLogger.warning('Error while reading request body from client \'%s\': %s', request.ip, error.message);
+    });
+  }
+
+  private static _limitBody(maxBodySize: number, request: Request, response: Response): stream.Readable {
+    let size = 0;
+
+    const limiter = new stream.Transform({
+      transform: (chunk: Buffer, _encoding, callback) => {
+        size += chunk.length;
+
+        if (size > maxBodySize) {
+          this._handleBodyTooLarge(maxBodySize, request, response);
+
+          callback(new Error(`Request body larger than ${maxBodySize} bytes`));
+          return;
+        }
+
+        callback(null, chunk);
+      },
+    });
+
+    // Not using stream.pipeline here, as it would destroy the client socket before the 413 can be sent. That means
+    // the client going away has to be passed on by hand, otherwise the upload to the downstream would wait for it.
+    request.once('error', (error) => limiter.destroy(error));
+    request.once('aborted', () => limiter.destroy(new Error('Request aborted by the client')));
+
+    return request.pipe(limiter);
+  }
+
+  private static _handleBodyTooLarge(maxBodySize: number, request: Request, response: Response): void {
+    requestBodyLogger.warning(
+      'Request body from client \'%s\' is larger than %d bytes, responding with a 413.',
+      request.ip,
+      maxBodySize,
+    );
+    request.fireEvent('RequestBodyTooLarge');
+
+    // The downstream may have already started responding if the body was being streamed.
+    if (response.headersSent) {
+      response.destroy();
+      return;
+    }
+
+    errorResponder.invoke(
+      request,
+      response,
+      413,
+      ErrorCode.RequestBodyTooLarge,
+      `Cannot satisfy request because the request body is larger than ${maxBodySize} bytes.`,
+      { maxBodySize },
+    );
+  }
+
+  private static _isBodyNeededForAnalytics(): boolean {
+    return (
+      environment.enableGA4Client &&
+      environment.requestExtensionsEnableGoogleAnalytics &&
+      !environment.ga4DisableLoggingBody
+    );
+  }
+
+  // A streamed body can only be sent once, so it has to be buffered to also send it to the shadow downstream.
+  private static _isBodyNeededForMirroring(request: Request): boolean {
+    return trafficMirror.isSampled(request.context.get('hostname'), request);
+  }
+
+  private static _hasBody(request: Request): boolean {
+    if (request.headers['transfer-encoding'] !== undefined) return true;
+
+    const contentLength = parseInt(request.headers['content-length'], 10);
+
+    return !isNaN(contentLength) && contentLength > 0;
+  }
+}
@@ -0,0 +1,46 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: request_context_middleware.ts
+    Description: Makes the request's context the current context for the rest of the middleware chain, so anything
+                 called while handling the request can read it through RequestContext.current, e.g. the logger
+                 to prefix its lines with the request ID.
+                 This should be the first middleware in the chain.
+    Written by: Nikita Petko
+*/
+
+import '@lib/extensions/express/request';
+
+import requestContext from '@lib/context';
+
+import { NextFunction, Request, Response } from 'express';
+
+export default class RequestContextMiddleware {
+  /**
+   * Invokes the middleware.
+   * @param {Request} request The request object.
+   * @param {Response} _response The response object.
+   * @param {NextFunction} next The next function to call.
+   * @returns {void} Nothing.
+   */
+  public static invoke(request: Request, _response: Response, next: NextFunction): void {
+    // Generated up front, so every line logged while handling the request is prefixed with it.
+    request.context.set('requestId', request.requestId);
+
+    requestContext.run(request.context, next);
+  }
+}
@@ -0,0 +1,132 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: response_cache_middleware.ts
+    Description: Serves requests from the response cache when the stored response is fresh enough, otherwise it
+                 lets the request through to the downstream (with the stored response's validators if it has one).
+    Written by: Nikita Petko
+*/
+
+import '@lib/extensions/express/request';
+import '@lib/extensions/express/response';
+
+import logger from '@lib/logger';
+import responseCache from '@lib/cache';
+import environment from '@lib/environment';
+import { ErrorCode } from '@lib/responders/error_code';
+import { CacheFreshness } from '@lib/cache/cache_freshness';
+import errorResponder from '@lib/responders/error_responder';
+
+import { NextFunction, Request, Response } from 'express';
+
+const responseCacheLogger = new logger(
+  'response-cache-middleware',
+  environment.logLevel,
+  environment.logToFileSystem,
+  environment.logToConsole,
+  environment.loggerCutPrefix,
+);
+
+export default class ResponseCacheMiddleware {
+  // Safe methods don't change the resource, so they don't invalidate it (RFC 9111 section 4.4).
+  private static readonly _safeMethods = ['GET', 'HEAD', 'OPTIONS', 'TRACE'];
+
+  /**
+   * Invokes the middleware.
+   * @param {Request} request The request object.
+   * @param {Response} response The response object.
+   * @param {NextFunction} next The next function to call.
+   * @returns {void} Nothing.
+   */
+  public static async invoke(request: Request, response: Response, next: NextFunction): Promise<void> {
+    const hostname = request.context.get('hostname');
+
+    if (!responseCache.isEnabled(hostname)) return next();
+
+    if (!responseCache.isCacheableRequest(request)) {
+      // e.g. a range request or one with no-store is only not served from the cache, it doesn't change the resource.
+      if (!this._safeMethods.includes(request.method)) this._invalidateOnSuccess(request, response);
+
+      return next();
+    }
+
+    let entry = undefined;
+
+    try {
+      entry = await responseCache.lookup(request);
+    } catch (error) {
+      responseCacheLogger.warning('Failed to look up \'%s\' in the cache: %s', request.originalUrl, error.message);
+    }
+
+    const freshness = entry !== undefined ? responseCache.getFreshness(entry, request) : undefined;
+
+    if (freshness === CacheFreshness.Fresh) {
+      responseCacheLogger.debug(
+        'Serving \'%s\' on upstream hostname \'%s\' from the cache.',
+        request.originalUrl,
+        hostname,
+      );
+
+      responseCache.serve(entry, 'HIT', request, response);
+      return;
+    }
+
+    if (freshness === CacheFreshness.StaleWhileRevalidate) {
+      responseCacheLogger.debug(
+        'Serving stale \'%s\' on upstream hostname \'%s\' from the cache while it is revalidated.',
+        request.originalUrl,
+        hostname,
+      );
+
+      responseCache.serve(entry, 'STALE', request, response);
+      responseCache.revalidateInBackground(entry, request);
+      return;
+    }
+
+    if (request.headers['cache-control']?.includes('only-if-cached')) {
+      this._handleNotCached(request, response);
+      return;
+    }
+
+    request.context.set('responseCache', {
+      entry,
+      conditional: entry !== undefined && responseCache.addConditionalHeaders(entry, request),
+    });
+
+    next();
+  }
+
+  private static _invalidateOnSuccess(request: Request, response: Response): void {
+    response.once('finish', () => {
+      if (response.statusCode >= 400) return;
+
+      responseCache.invalidate(request);
+    });
+  }
+
+  private static _handleNotCached(request: Request, response: Response): void {
+    responseCacheLogger.debug('\'%s\' is not cached and the client only accepts a cached response.', request.originalUrl);
+
+    errorResponder.invoke(
+      request,
+      response,
+      504,
+      ErrorCode.NotCached,
+      'Cannot satisfy request because it is not cached.',
+    );
+  }
+}
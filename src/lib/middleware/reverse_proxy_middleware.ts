@@ -21,7 +21,10 @@
     Written by: Nikita Petko
 */
 
+import '@lib/extensions/express/request';
+
 import environment from '@lib/environment';
+import forwardedHeader from '@lib/proxy/forwarded_header';
 
 import net from '@mfdlabs/net';
 import { NextFunction, Request, Response } from 'express';
@@ -39,11 +42,24 @@ export default class ReverseProxyMiddleware {
 
     if (!environment.reverseProxyMiddlewareEnabled) return next();
 
-    if (
-      this._isFromLocalArea(request) ||
-      this._isFromAuthorizedReverseProxy(request) ||
-      this._isCloudflareServer(request) // I advise you don't change this array.
-    ) {
+    if (this._isTrustedProxy(request.ip)) {
+      request.context.set('fromTrustedProxy', true);
+
+      const forwardedElements = environment.reverseProxyMiddlewareUseForwardedHeader
+        ? forwardedHeader.parse(request.headers.forwarded)
+        : [];
+
+      // The last element is the one added by the proxy that sent us the request.
+      const forwarded = forwardedElements[forwardedElements.length - 1];
+
+      // Every hop the request went through, with the client furthest to the left.
+      const chain =
+        forwardedElements.length > 0
+          ? forwardedElements.map((element) => element.for ?? 'unknown')
+          : this._parseForwardedFor(request.header(environment.forwardingHeaderName));
+
+      request.context.set('forwardedChain', [...chain, request.ip]);
+
       if (environment.reverseProxyMiddlewareReassignClientIPAddress) {
         let didAssignIP = false;
 
@@ -58,25 +74,27 @@ export default class ReverseProxyMiddleware {
           }
         }
 
-        // If we haven't assigned an IP yet, use the x-forwarded-for header.
+        // If we haven't assigned an IP yet, use the Forwarded or x-forwarded-for header.
         if (!didAssignIP) {
-          const forwardedHeader = request.header(environment.forwardingHeaderName);
-          if (typeof forwardedHeader === 'string' && this._isValidIP(forwardedHeader)) {
-            this._setClientIP(request, forwardedHeader);
+          const clientIP = this._getClientIPFromChain(chain);
+          if (clientIP !== undefined) {
+            this._setClientIP(request, clientIP);
             didAssignIP = true;
           }
         }
       }
 
       if (environment.reverseProxyMiddlewareReassignHostHeader) {
-        const forwardedHost = request.header(environment.forwardingTransformedHostHeaderName);
+        const forwardedHost = forwarded?.host ?? request.header(environment.forwardingTransformedHostHeaderName);
         if (typeof forwardedHost === 'string') {
           request.headers.host = forwardedHost;
         }
       }
 
       if (environment.reverseProxyMiddlewareReassignClientScheme) {
-        const forwardedScheme = request.header(environment.forwardingSchemeHeaderName)?.toLowerCase();
+        const forwardedScheme = (
+          forwarded?.proto ?? request.header(environment.forwardingSchemeHeaderName)
+        )?.toLowerCase();
         if (typeof forwardedScheme === 'string' && (forwardedScheme === 'http' || forwardedScheme === 'https')) {
           this._setClientProtocol(request, forwardedScheme);
         }
@@ -96,6 +114,53 @@ export default class ReverseProxyMiddleware {
     next();
   }
 
+  private static _parseForwardedFor(header: string): string[] {
+    if (typeof header !== 'string') return [];
+
+    return header
+      .split(',')
+      .map((hop) => hop.trim())
+      .filter((hop) => hop.length > 0);
+  }
+
+  // e.g. X-Forwarded-For: client, cloudflare-edge, with the request itself coming from nginx.
+  // The chain is walked from right to left, skipping our own proxies, as only the hops they appended can be trusted.
+  // The first hop that isn't one of them is the client, anything to the left of it could have been spoofed by it.
+  private static _getClientIPFromChain(chain: string[]): string | undefined {
+    let clientIP: string = undefined;
+    let trustedHops = 0;
+
+    for (let i = chain.length - 1; i >= 0; i--) {
+      const hop = this._getHopAddress(chain[i]);
+
+      // Unknown, obfuscated (e.g. for=_hidden) or malformed, so nothing further to the left can be trusted.
+      if (hop === undefined) break;
+
+      clientIP = hop;
+
+      if (!this._isTrustedProxy(hop) || trustedHops >= environment.reverseProxyMiddlewareMaxTrustedHops) break;
+
+      trustedHops++;
+    }
+
+    return clientIP;
+  }
+
+  // Hops can include a port, e.g. 192.0.2.43:47011 or [2001:db8:cafe::17]:4711.
+  private static _getHopAddress(hop: string): string | undefined {
+    if (this._isValidIP(hop)) return hop;
+
+    return forwardedHeader.getNodeAddress(hop);
+  }
+
+  private static _isTrustedProxy(ip: string): boolean {
+    return (
+      this._isFromLocalArea(ip) ||
+      this._isFromAuthorizedReverseProxy(ip) ||
+      this._isCloudflareServer(ip) // I advise you don't change this array.
+    );
+  }
+
   private static _setClientIP(request: Request, ip: string): void {
     // Because of how finicky node.js is, and the fact that request.ip is just a getter,
     // we need to completely override the request.ip property.
@@ -126,34 +191,34 @@ export default class ReverseProxyMiddleware {
     return net.isIPv4(ip) || net.isIPv6(ip);
   }
 
-  private static _isCloudflareServer(request: Request): boolean {
+  private static _isCloudflareServer(ip: string): boolean {
     return (
-      net.isIPv4InCidrRangeList(request.ip, environment.cloudflareIPv4Addresses) ||
-      net.isIPv6InCidrRangeList(request.ip, environment.cloudflareIPv6Addresses)
+      net.isIPv4InCidrRangeList(ip, environment.cloudflareIPv4Addresses) ||
+      net.isIPv6InCidrRangeList(ip, environment.cloudflareIPv6Addresses)
     );
   }
 
-  private static _isFromAuthorizedReverseProxy(request: Request): boolean {
+  private static _isFromAuthorizedReverseProxy(ip: string): boolean {
     // This will determine if the actual client IP is from an authorized reverse proxy.
     // This is useful for situations where you want to allow certain IPs to spoof the request.
     // For example, if you have a reverse proxy that is running on a different machine, that is
     // not on the same network as the server, you can use this to allow that machine to spoof
     // the request.
     return (
-      net.isIPv4InCidrRangeList(request.ip, environment.authorizedReverseProxyIPv4Addresses) ||
-      net.isIPv6InCidrRangeList(request.ip, environment.authorizedReverseProxyIPv6Addresses)
+      net.isIPv4InCidrRangeList(ip, environment.authorizedReverseProxyIPv4Addresses) ||
+      net.isIPv6InCidrRangeList(ip, environment.authorizedReverseProxyIPv6Addresses)
     );
   }
 
-  private static _isFromLocalArea(request: Request): boolean {
+  private static _isFromLocalArea(ip: string): boolean {
     // IP is either from IPv4 LAN, IPv6 LAN, or localhost.
     // Do not count Link-Local addresses as local.
     return (
-      net.isIPv4Loopback(request.ip) ||
-      net.isIPv6Loopback(request.ip) ||
-      net.isIPv4RFC1918(request.ip) ||
-      net.isIPv6RFC4193(request.ip) ||
-      net.isIPv6RFC3879(request.ip)
+      net.isIPv4Loopback(ip) ||
+      net.isIPv6Loopback(ip) ||
+      net.isIPv4RFC1918(ip) ||
+      net.isIPv6RFC4193(ip) ||
+      net.isIPv6RFC3879(ip)
     );
   }
 }
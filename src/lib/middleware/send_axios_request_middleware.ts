@@ -23,11 +23,26 @@
 import '@lib/extensions/express/request';
 
 import logger from '@lib/logger';
+import responseCache from '@lib/cache';
 import environment from '@lib/environment';
+import agentPool from '@lib/proxy/agent_pool';
+import viaHeader from '@lib/proxy/via_header';
+import hostMapper from '@lib/proxy/host_mapper';
+import retryPolicy from '@lib/proxy/retry_policy';
 import webUtility from '@lib/utility/web_utility';
-
-import * as https from 'https';
-import htmlEncode from 'escape-html';
+import bodyRewriter from '@lib/proxy/body_rewriter';
+import trafficMirror from '@lib/proxy/traffic_mirror';
+import { ErrorCode } from '@lib/responders/error_code';
+import circuitBreaker from '@lib/proxy/circuit_breaker';
+import http2Transport from '@lib/proxy/http2_transport';
+import timeoutProfile from '@lib/proxy/timeout_profile';
+import forwardedHeader from '@lib/proxy/forwarded_header';
+import hopByHopHeaders from '@lib/proxy/hop_by_hop_headers';
+import errorResponder from '@lib/responders/error_responder';
+import setCookieRewriter from '@lib/proxy/set_cookie_rewriter';
+import downstreamErrorClassifier from '@lib/proxy/downstream_error_classifier';
+
+import * as stream from 'stream';
 import { NextFunction, Request, Response } from 'express';
 import axios, { AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios';
 
@@ -40,6 +55,13 @@ const sendAxiosRequestLogger = new logger(
 );
 
 export default class SendAxiosRequestMiddleware {
+  private static readonly _errorEvents: Partial<Record<ErrorCode, string>> = {
+    [ErrorCode.DownstreamTimeout]: 'ProxyTimeout',
+    [ErrorCode.DownstreamTlsFailed]: 'ProxyTlsError',
+    [ErrorCode.DownstreamConnectionFailed]: 'ProxyConnectError',
+    [ErrorCode.ProxyOverloaded]: 'ProxyOverloaded',
+  };
+
   /**
    * Invokes the middleware.
    * @param {Request} request The request object.
@@ -50,7 +72,8 @@ export default class SendAxiosRequestMiddleware {
   public static invoke(request: Request, response: Response, next: NextFunction): void {
     const url = request.originalUrl;
     const port = request.localPort;
-    const hostname = request.context.get('hostname') as string;
+    const hostname = request.context.get('hostname');
+    const resolvedAddress = request.context.get('resolvedAddress');
 
     const uri = `${request.protocol}://${hostname}:${port}${url}`;
 
@@ -71,12 +94,21 @@ export default class SendAxiosRequestMiddleware {
       delete request.headers['x-real-ip'];
     }
 
-    if (request.body instanceof Buffer) {
-      request.body = this._bufferToString(request.body);
+    const data = this._getRequestData(request);
+
+    // A buffered body is sent with a known length, so it can't also be chunked.
+    if (data instanceof Buffer) {
+      delete request.headers['transfer-encoding'];
+      request.headers['content-length'] = data.length.toString();
     }
 
+    // Abort the downstream request if the response is closed before we have a response from it, either
+    // because the client went away or because we already responded (e.g. the request body was too large).
+    const abortController = new AbortController();
+    response.on('close', () => abortController.abort());
+
     const configuration = {
-      data: request.body,
+      data,
       headers: {
         ...request.headers,
 
@@ -87,6 +119,11 @@ export default class SendAxiosRequestMiddleware {
 
       responseType: 'stream',
 
+      // The body is passed through as-is, so the client is responsible for decoding it.
+      decompress: false,
+
+      signal: abortController.signal,
+
       url: uri,
 
       // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -95,8 +132,6 @@ export default class SendAxiosRequestMiddleware {
       maxBodyLength: Infinity,
       maxContentLength: Infinity,
       maxRedirects: 0,
-
-      timeout: environment.sendAxiosRequestTimeout,
     } as AxiosRequestConfig;
 
     if (environment.sendAxiosRequestWithForwardedHeaders) {
@@ -108,22 +143,50 @@ export default class SendAxiosRequestMiddleware {
       configuration.headers['X-Real-IP'] = request.realIp;
     }
 
-    const transformedOrigin = request.context.get('transformedOrigin') as string;
+    if (environment.sendAxiosRequestWithStandardForwardedHeader) {
+      // Only the elements added by an authorized reverse proxy are kept, anything else could be spoofed by the client.
+      configuration.headers.forwarded = forwardedHeader.append(
+        request.context.get('fromTrustedProxy') ? request.headers.forwarded : undefined,
+        request,
+      );
+    }
+
+    const transformedOrigin = request.context.get('transformedOrigin');
     if (transformedOrigin) {
       configuration.headers.origin = transformedOrigin;
     }
 
-    const transformedReferer = request.context.get('transformedReferer') as string;
+    const transformedReferer = request.context.get('transformedReferer');
     if (transformedReferer) {
       configuration.headers.referer = transformedReferer;
     }
 
-    if (!environment.enableCertificateValidation) {
-      configuration.httpsAgent = new https.Agent({
-        rejectUnauthorized: false,
-      });
+    // These only apply to the connection with the client, the agent decides what to do with the downstream one.
+    hopByHopHeaders.strip(configuration.headers);
+
+    configuration.headers.via = viaHeader.append(request.headers.via, request.httpVersion);
+
+    if (request.protocol === 'https') {
+      configuration.httpsAgent = agentPool.getAgent(request.protocol, hostname, resolvedAddress);
+    } else {
+      configuration.httpAgent = agentPool.getAgent(request.protocol, hostname, resolvedAddress);
     }
 
+    // The total timeout is the time budget for every attempt, not just one.
+    const timeouts = timeoutProfile.getTimeouts(hostname, request);
+    const deadline = Date.now() + timeouts.total;
+
+    // Without a connect timeout the session is only bounded by the total one.
+    http2Transport.configure(
+      configuration,
+      request.protocol,
+      hostname,
+      resolvedAddress,
+      timeouts.connect || timeouts.total,
+    );
+
+    timeoutProfile.configure(configuration, timeouts, deadline);
+
     if (environment.debugEchoRequestConfig) {
       sendAxiosRequestLogger.debug('!!! DEBUG VARIABLE ENABLED !!! Respond to upstream with Axios Configuration...');
 
@@ -132,77 +195,209 @@ export default class SendAxiosRequestMiddleware {
       response.status(200);
       response.contentType('application/json');
       response.noCache();
-      response.send(JSON.stringify(configuration, null, 2));
+      response.send(
+        JSON.stringify(
+          {
+            ...configuration,
+
+            data: data instanceof stream.Readable ? '<stream>' : data?.toString(),
+            httpAgent: undefined,
+            httpsAgent: undefined,
+            transport: undefined,
+            timeouts,
+          },
+          null,
+          2,
+        ),
+      );
       return;
     }
 
+    trafficMirror.mirror(hostname, configuration, request, response);
+
+    const maxRetries = retryPolicy.getMaxRetries(request, data);
+
+    this._sendRequest(hostname, configuration, maxRetries, deadline, request, response, next);
+  }
+
+  private static _sendRequest(
+    hostname: string,
+    configuration: AxiosRequestConfig,
+    maxRetries: number,
+    deadline: number,
+    request: Request,
+    response: Response,
+    next: NextFunction,
+  ): void {
+    if (!circuitBreaker.tryAcquire(hostname, request)) {
+      this._handleCircuitOpen(hostname, request, response);
+      return;
+    }
+
+    const attempt = (request.context.get('downstreamAttempts') ?? 0) + 1;
+    request.context.set('downstreamAttempts', attempt);
+
     axios
       .request(configuration)
-      .then((axiosResponse) => this._handleAxiosResponse(hostname, axiosResponse, request, response, next))
-      .catch((axiosError) => this._handleAxiosError(hostname, axiosError, request, response, next));
+      .then((axiosResponse) => {
+        if (environment.circuitBreakerFailureStatusCodes.includes(axiosResponse.status)) {
+          circuitBreaker.recordFailure(hostname, request);
+        } else {
+          circuitBreaker.recordSuccess(hostname, request);
+        }
+
+        if (retryPolicy.isRetriableStatus(axiosResponse.status)) {
+          const delay = this._getRetryDelay(attempt, maxRetries, deadline);
+
+          if (delay !== undefined) {
+            // Nobody is going to read this response, so don't keep the socket busy with it.
+            (axiosResponse.data as stream.Readable).destroy();
+
+            this._retry(
+              hostname,
+              `status ${axiosResponse.status}`,
+              delay,
+              configuration,
+              maxRetries,
+              deadline,
+              request,
+              response,
+              next,
+            );
+            return;
+          }
+        }
+
+        if (responseCache.tryServeFromCache(axiosResponse, request, response)) return;
+
+        this._handleAxiosResponse(hostname, axiosResponse, request, response, next);
+      })
+      .catch((axiosError) => {
+        // Errors the client caused (e.g. a body that's too large) say nothing about the health of the downstream.
+        if (
+          !axios.isCancel(axiosError) &&
+          (downstreamErrorClassifier.isDownstreamFault(axiosError.code) || retryPolicy.isRetriableError(axiosError))
+        ) {
+          circuitBreaker.recordFailure(hostname, request);
+        } else {
+          circuitBreaker.release(hostname, request);
+        }
+
+        if (!axios.isCancel(axiosError) && retryPolicy.isRetriableError(axiosError)) {
+          const delay = this._getRetryDelay(attempt, maxRetries, deadline);
+
+          if (delay !== undefined) {
+            this._retry(
+              hostname,
+              `error '${axiosError.code}'`,
+              delay,
+              configuration,
+              maxRetries,
+              deadline,
+              request,
+              response,
+              next,
+            );
+            return;
+          }
+        }
+
+        if (!axios.isCancel(axiosError) && responseCache.tryServeStaleIfError(request, response)) return;
+
+        this._handleAxiosError(hostname, axiosError, request, response, next);
+      });
   }
 
-  private static _bufferToString(buffer: Buffer): string {
-    return buffer.toString('utf8');
+  private static _handleCircuitOpen(hostname: string, request: Request, response: Response): void {
+    const retryAfter = circuitBreaker.getRetryAfter(hostname);
+
+    sendAxiosRequestLogger.warning(
+      'Circuit for upstream hostname \'%s\' is open, rejecting request from client \'%s\'.',
+      hostname,
+      request.ip,
+    );
+    request.fireEvent('CircuitOpen', `Circuit for upstream hostname '${hostname}' is open`);
+
+    response.header({
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      'retry-after': retryAfter.toString(),
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      'x-proxy-retries': (request.context.get('downstreamAttempts') ?? 0).toString(),
+    });
+
+    errorResponder.invoke(
+      request,
+      response,
+      503,
+      ErrorCode.CircuitOpen,
+      `The upstream hostname '${hostname}' is unavailable, try again in ${retryAfter} second(s).`,
+      { hostname, retryAfter },
+    );
   }
 
-  private static _machineNameCached = undefined;
+  private static _getRetryDelay(attempt: number, maxRetries: number, deadline: number): number | undefined {
+    if (attempt > maxRetries) return undefined;
 
-  private static _getMachineName(): string {
-    if (this._machineNameCached === undefined) {
-      this._machineNameCached = webUtility.getMachineID();
-    }
+    const delay = retryPolicy.getBackoffDelay(attempt);
 
-    return this._machineNameCached;
+    // There would be no time left for the next attempt.
+    if (Date.now() + delay >= deadline) return undefined;
+
+    return delay;
   }
 
-  private static _parseCookie(cookie: string): { [key: string]: string } {
-    const cookieObject: { [key: string]: string } = {};
+  private static _retry(
+    hostname: string,
+    reason: string,
+    delay: number,
+    configuration: AxiosRequestConfig,
+    maxRetries: number,
+    deadline: number,
+    request: Request,
+    response: Response,
+    next: NextFunction,
+  ): void {
+    const attempt = request.context.get('downstreamAttempts');
 
-    if (cookie === undefined || cookie === null) return cookieObject;
+    sendAxiosRequestLogger.warning(
+      'Retrying downstream URI \'%s\' at upstream hostname \'%s\' in %dms after %s (attempt %d of %d).',
+      configuration.url,
+      hostname,
+      delay,
+      reason,
+      attempt,
+      maxRetries + 1,
+    );
+    request.fireEvent(
+      'ProxyRetry',
+      `Retrying downstream URI '${
+        configuration.url
+      }' at upstream hostname '${hostname}' after ${reason} (attempt ${attempt} of ${maxRetries + 1})`,
+    );
 
-    const cookieArray = cookie.split(';');
+    setTimeout(() => {
+      // The client went away while we were waiting.
+      if (configuration.signal.aborted) return;
 
-    for (const cookiePair of cookieArray) {
-      const cookiePairArray = cookiePair.split('=');
+      this._sendRequest(hostname, configuration, maxRetries, deadline, request, response, next);
+    }, delay);
+  }
 
-      if (cookiePairArray.length === 2) {
-        cookieObject[decodeURIComponent(cookiePairArray[0].trim())] = decodeURIComponent(cookiePairArray[1].trim());
-      }
-    }
+  private static _getRequestData(request: Request): Buffer | stream.Readable {
+    // The request body middleware will have either buffered the body or given us the stream to send.
+    if (request.body instanceof Buffer) return request.body;
 
-    return cookieObject;
+    return request.context.get('requestBodyStream');
   }
 
-  private static _transformSetCookieHeader(
-    header: string | string[],
-    testHost: string,
-    host: string,
-  ): string | string[] {
-    if (header === undefined || header === null) return undefined;
-
-    if (typeof header === 'string') {
-      // Parse cookie string, then update it's domain key and reencode it
-      const cookie = this._parseCookie(header);
-      if (cookie.domain.includes(testHost)) {
-        if (cookie.domain.startsWith('.')) {
-          cookie.domain = `.${host}`;
-        } else {
-          cookie.domain = host;
-        }
-      }
-      return Object.keys(cookie)
-        .map((key) => `${key}=${cookie[key]}`)
-        .join('; ');
-    }
+  private static _machineNameCached = undefined;
 
-    // If it's an array, update each cookie's domain key and reencode it
-    return header.map((cookie) => this._transformSetCookieHeader(cookie, testHost, host)) as string[];
-  }
+  private static _getMachineName(): string {
+    if (this._machineNameCached === undefined) {
+      this._machineNameCached = webUtility.getMachineID();
+    }
 
-  private static _extractBaseHost(host: string): string {
-    // Extracts just hostname.tld from subdomain.hostname.tld etc
-    return host.split('.').slice(-2).join('.');
+    return this._machineNameCached;
   }
 
   private static _handleAxiosError(
@@ -212,37 +407,52 @@ export default class SendAxiosRequestMiddleware {
     response: Response,
     next: NextFunction,
   ): void {
-    const timing = Date.now() - (request.context.get('startTime') as number);
+    const timing = Date.now() - request.context.get('startTime');
+
+    // We already responded to the client, e.g. the request body was rejected while it was being streamed.
+    if (response.headersSent) return;
+
+    if (axios.isCancel(error)) {
+      sendAxiosRequestLogger.debug(
+        'Client \'%s\' closed the connection before upstream hostname \'%s\' responded after %dms, aborted downstream request.',
+        request.ip,
+        hostname,
+        timing,
+      );
+
+      return;
+    }
+
     const uri = error.config.url;
 
-    // Check if error is a timeout
-    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT' || error.code === 'ECONNREFUSED') {
+    const classification = downstreamErrorClassifier.classify(error.code, uri, timing);
+
+    if (classification !== undefined) {
       sendAxiosRequestLogger.warning(
-        'Proxy timed out from downstream URI \'%s\' on upstream hostname \'%s\' after %dms.',
+        'Proxy error \'%s\' from downstream URI \'%s\' on upstream hostname \'%s\' after %dms: %s',
+        error.code,
         uri,
         hostname,
         timing,
+        error.message,
       );
       request.fireEvent(
-        'ProxyTimeout',
-        `Proxy timeout from downstream URI '${uri}' on upstream hostname '${hostname}' after ${timing}ms`,
+        this._errorEvents[classification.code],
+        `Proxy error '${error.code}' from downstream URI '${uri}' on upstream hostname '${hostname}' after ${timing}ms`,
       );
 
-      response.status(504);
-
       response.header({
         // eslint-disable-next-line @typescript-eslint/naming-convention
         'x-downstream-timing': `${timing}ms`,
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        'x-proxy-retries': request.context.get('downstreamAttempts').toString(),
       });
 
-      response.noCache();
-      response.contentType('text/html');
-
-      response.send(
-        `<html><body><h1>504 Gateway Timeout</h1><p>The downstream URI '${htmlEncode(
-          uri,
-        )}' timed out after ${timing}ms.</p></body></html>`,
-      );
+      errorResponder.invoke(request, response, classification.status, classification.code, classification.message, {
+        uri,
+        timing,
+        reason: error.code,
+      });
 
       return;
     }
@@ -259,6 +469,8 @@ export default class SendAxiosRequestMiddleware {
       `Proxy error '${error.message}' from downstream URI '${uri}' at upstream hostname '${hostname}' in ${timing}ms`,
     );
 
+    response.header('x-proxy-retries', request.context.get('downstreamAttempts').toString());
+
     next(error); // We didn't get a response so it'll just pass it onto upstream error handler
   }
 
@@ -271,7 +483,13 @@ export default class SendAxiosRequestMiddleware {
     next: NextFunction,
   ): void {
     try {
-      const timing = Date.now() - (request.context.get('startTime') as number);
+      const timing = Date.now() - request.context.get('startTime');
+
+      // Determined before any of the headers are changed, as they include the ones needed for caching.
+      const cachePolicy = responseCache.getStoragePolicy(request, axiosResponse);
+
+      // Also captured as the downstream sent it, as that's what the shadow downstream's response is compared with.
+      const mirrorCapture = trafficMirror.capture(axiosResponse, request);
 
       sendAxiosRequestLogger.debug(
         'Proxy response %d (%s) from downstream URI \'%s\' at upstream hostname \'%s\' in %dms',
@@ -286,16 +504,7 @@ export default class SendAxiosRequestMiddleware {
         `Proxy response ${axiosResponse.status} (${axiosResponse.statusText}) from downstream URI '${axiosResponse.config.url}' at upstream hostname '${hostname}' in ${timing}ms`,
       );
 
-      // Check for a redirect.
-      if (axiosResponse.headers.location) {
-        const location = axiosResponse.headers.location;
-        sendAxiosRequestLogger.debug('Transforming redirect location');
-
-        // If the request is a domain, then replace this request hostname with the current transformed hostname
-        if (location.startsWith('http://') || location.startsWith('https://')) {
-          axiosResponse.headers.location = location.replace(hostname, request.headers.host);
-        }
-      }
+      this._rewriteUrlHeaders(axiosResponse, request);
 
       const allowCorsHeaderOverwrite = request.context.get('allowCorsHeaderOverwrite');
       if (allowCorsHeaderOverwrite) {
@@ -321,90 +530,167 @@ export default class SendAxiosRequestMiddleware {
         }
       }
 
+      hopByHopHeaders.strip(axiosResponse.headers);
+
       delete axiosResponse.headers.server;
       delete axiosResponse.headers.date;
-      delete axiosResponse.headers.connection;
       delete axiosResponse.headers['x-powered-by'];
 
-      axiosResponse.headers['set-cookie'] = this._transformSetCookieHeader(
-        axiosResponse.headers['set-cookie'],
-        this._extractBaseHost(hostname),
-        this._extractBaseHost(request.headers.host),
-      ) as string[];
+      axiosResponse.headers.via = viaHeader.append(axiosResponse.headers.via, axiosResponse.request?.res?.httpVersion);
 
-      axiosResponse.headers['x-downstream-timing'] = `${timing}ms`;
+      if (axiosResponse.headers['set-cookie'] !== undefined) {
+        axiosResponse.headers['set-cookie'] = setCookieRewriter.rewrite(axiosResponse.headers['set-cookie'], request);
+      }
 
-      if (axiosResponse['set-cookie'] === undefined) delete axiosResponse.headers['set-cookie'];
+      axiosResponse.headers['x-downstream-timing'] = `${timing}ms`;
+      axiosResponse.headers['x-proxy-retries'] = request.context.get('downstreamAttempts').toString();
 
       delete axiosResponse.headers.expires;
 
-      // The response is a stream, so we need to pipe it to a string.
-
-      const responseString = new Promise<string>((resolve, reject) => {
-        let r = '';
-        axiosResponse.data.on('data', (chunk) => {
-          r += chunk;
-        });
-        axiosResponse.data.on('end', () => {
-          resolve(r);
-        });
-        axiosResponse.data.on('error', (error) => {
-          reject(error);
-        });
-      });
+      if (request.context.get('responseCache') !== undefined) axiosResponse.headers['x-cache'] = 'MISS';
 
-      responseString
-        .then((r) => {
-          delete axiosResponse.headers['content-length'];
-          axiosResponse.headers['content-length'] = Buffer.byteLength(r).toString();
-
-          response.status(axiosResponse.status);
-          response.set(axiosResponse.headers);
-          response.end(r);
-        })
-        .catch((error) => {
-          if (error.code === 'ECONNRESET') {
-            // This is an unknown issue where the connection will reset on some TLS connections.
-            // We'll respond with a 504 Gateway Timeout.
-
-            sendAxiosRequestLogger.error(
-              'Proxy error \'%s\' from downstream URI \'%s\' at upstream hostname \'%s\' in %dms',
-              error.message,
-              axiosResponse.config.url,
-              hostname,
-              timing,
-            );
-            request.fireEvent(
-              'ProxyErrorUnknown',
-              `Proxy error '${error.message}' from downstream URI '${axiosResponse.config.url}' at upstream hostname '${request.headers.host}' in ${timing}ms`,
-            );
+      const bodyStreams: stream.Transform[] = [];
+      let bufferBody = false;
 
-            response.status(502);
-            response.header({
-              // eslint-disable-next-line @typescript-eslint/naming-convention
-              'x-downstream-timing': `${timing}ms`,
-            });
-            response.noCache();
-            response.contentType('text/html');
-
-            response.send(
-              `<html><body><h1>502 Bad Gateway</h1><p>The downstream response from URI '${htmlEncode(
-                axiosResponse.config.url,
-              )}' was aborted.</p><p><b>This is a known issue, please be patient while we look for a fix.</b></p></body></html>`,
-            );
+      if (mirrorCapture !== undefined) bodyStreams.push(mirrorCapture);
 
-            return;
-          }
+      // Rewritten before it's captured, so the cache stores the body the client is sent.
+      if (bodyRewriter.shouldRewrite(axiosResponse, request)) {
+        sendAxiosRequestLogger.debug('Rewriting body of downstream URI \'%s\'', axiosResponse.config.url);
 
-          sendAxiosRequestLogger.error('Error in response stream', error);
-          request.fireEvent('ProxyResponseError', error);
+        // Small enough to know the length of the rewritten body before it's sent.
+        const contentLength = parseInt(axiosResponse.headers['content-length'], 10);
+        bufferBody = contentLength <= environment.bodyRewritingMaxBufferSize;
 
-          next(error);
-        });
+        bodyStreams.push(...bodyRewriter.createRewriteStreams(axiosResponse, request));
+      }
+
+      if (cachePolicy !== undefined) {
+        bodyStreams.push(responseCache.capture(cachePolicy, axiosResponse, request));
+      }
+
+      response.status(axiosResponse.status);
+      response.set(axiosResponse.headers);
+
+      if (bufferBody) {
+        this._sendBufferedBody(hostname, timing, axiosResponse, bodyStreams, request, response, next);
+        return;
+      }
+
+      // Unless the body is rewritten, it's streamed through untouched, so the content-length (if the downstream sent
+      // one) stays valid. If it didn't, the response will be chunked.
+      response.flushHeaders();
+
+      stream.pipeline([axiosResponse.data, ...bodyStreams, response], (error: NodeJS.ErrnoException) => {
+        if (!error) return;
+
+        this._handleResponseStreamError(hostname, timing, error, axiosResponse, request);
+      });
     } catch (error) {
       sendAxiosRequestLogger.error('Error while proxying response: %s', error.message);
       request.fireEvent('ProxyResponseError', `Error while proxying response: ${error.message}`);
       next(error);
     }
   }
+
+  // Maps production hostnames in the headers that carry URLs back to the test site, so redirects and links don't
+  // take the client out of it.
+  private static _rewriteUrlHeaders(axiosResponse: AxiosResponse, request: Request): void {
+    const host = request.headers.host;
+    const headers = axiosResponse.headers;
+
+    if (headers.location) {
+      headers.location = hostMapper.toTestSiteUrl(headers.location, host);
+    }
+
+    if (headers['content-location']) {
+      headers['content-location'] = hostMapper.toTestSiteUrl(headers['content-location'], host);
+    }
+
+    // e.g. Link: <https://www.roblox.com/style.css>; rel=preload, <https://css.rbxcdn.com>; rel=preconnect
+    if (headers.link) {
+      headers.link = headers.link.replace(
+        /<([^>]*)>/g,
+        (_match, url: string) => `<${hostMapper.toTestSiteUrl(url, host)}>`,
+      );
+    }
+
+    // e.g. Refresh: 5; url=https://www.roblox.com/home
+    if (headers.refresh) {
+      headers.refresh = headers.refresh.replace(
+        /^(\s*[\d.]+\s*[;,]\s*(?:url\s*=\s*)?)(['"]?)([^'"]*)\2/i,
+        (_match, prefix: string, quote: string, url: string) =>
+          prefix + quote + hostMapper.toTestSiteUrl(url, host) + quote,
+      );
+    }
+  }
+
+  private static _sendBufferedBody(
+    hostname: string,
+    timing: number,
+    axiosResponse: AxiosResponse,
+    bodyStreams: stream.Transform[],
+    request: Request,
+    response: Response,
+    next: NextFunction,
+  ): void {
+    const chunks: Buffer[] = [];
+
+    const collector = new stream.Writable({
+      write: (chunk: Buffer, _encoding, callback) => {
+        chunks.push(chunk);
+        callback();
+      },
+    });
+
+    stream.pipeline([axiosResponse.data, ...bodyStreams, collector], (error: NodeJS.ErrnoException) => {
+      if (error) {
+        this._handleResponseStreamError(hostname, timing, error, axiosResponse, request);
+
+        // Nothing was sent yet, so it can still be responded to, unless the client went away.
+        if (!request.socket.destroyed) next(error);
+
+        return;
+      }
+
+      const body = Buffer.concat(chunks);
+
+      response.set('content-length', body.length.toString());
+      response.end(body);
+    });
+  }
+
+  private static _handleResponseStreamError(
+    hostname: string,
+    timing: number,
+    error: NodeJS.ErrnoException,
+    axiosResponse: AxiosResponse,
+    request: Request,
+  ): void {
+    // When the body is streamed its headers are flushed first, so there's no error page to send here. Pipeline has
+    // already destroyed both ends, which means the client won't mistake this for a complete response.
+
+    // The client closed the connection.
+    if (error.code === 'ERR_STREAM_PREMATURE_CLOSE') {
+      sendAxiosRequestLogger.debug(
+        'Client \'%s\' closed the connection while streaming response from downstream URI \'%s\', aborted downstream response.',
+        request.ip,
+        axiosResponse.config.url,
+      );
+
+      return;
+    }
+
+    sendAxiosRequestLogger.error(
+      'Proxy error \'%s\' while streaming response from downstream URI \'%s\' at upstream hostname \'%s\' in %dms',
+      error.message,
+      axiosResponse.config.url,
+      hostname,
+      timing,
+    );
+    request.fireEvent(
+      'ProxyResponseError',
+      `Proxy error '${error.message}' while streaming response from downstream URI '${axiosResponse.config.url}' at upstream hostname '${hostname}' in ${timing}ms`,
+    );
+  }
 }
@@ -0,0 +1,334 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: upgrade_tunnel_middleware.ts
+    Description: Tunnels HTTP Upgrade requests (such as WebSockets) and CONNECT requests to the downstream server.
+                 This is only hit for requests dispatched from a server's upgrade or connect event, every other
+                 request will continue on to the send axios request middleware.
+    Written by: Nikita Petko
+*/
+
+import '@lib/extensions/express/request';
+import '@lib/extensions/express/response';
+
+import logger from '@lib/logger';
+import environment from '@lib/environment';
+import viaHeader from '@lib/proxy/via_header';
+import trustStore from '@lib/proxy/trust_store';
+import egressProxy from '@lib/proxy/egress_proxy';
+import webUtility from '@lib/utility/web_utility';
+import { ErrorCode } from '@lib/responders/error_code';
+import timeoutProfile from '@lib/proxy/timeout_profile';
+import forwardedHeader from '@lib/proxy/forwarded_header';
+import hopByHopHeaders from '@lib/proxy/hop_by_hop_headers';
+import errorResponder from '@lib/responders/error_responder';
+import downstreamErrorClassifier from '@lib/proxy/downstream_error_classifier';
+import clientCertificateRulesReader from '@lib/proxy/client_certificate_rules_reader';
+
+import * as net from 'net';
+import * as tls from 'tls';
+import { NextFunction, Request, Response } from 'express';
+
+const upgradeTunnelLogger = new logger(
+  'upgrade-tunnel-middleware',
+  environment.logLevel,
+  environment.logToFileSystem,
+  environment.logToConsole,
+  environment.loggerCutPrefix,
+);
+
+export default class UpgradeTunnelMiddleware {
+  /**
+   * Invokes the middleware.
+   * @param {Request} request The request object.
+   * @param {Response} response The response object.
+   * @param {NextFunction} next The next function to call.
+   * @returns {void} Nothing.
+   */
+  public static invoke(request: Request, response: Response, next: NextFunction): void {
+    // This is only set by node when the server has an upgrade listener.
+    if (!request.upgrade) return next();
+
+    const port = request.localPort;
+    const hostname = request.context.get('hostname');
+    const resolvedAddress = request.context.get('resolvedAddress');
+
+    // CONNECT requests only have the authority.
+    const uri =
+      request.method === 'CONNECT'
+        ? `${hostname}:${port}`
+        : `${request.protocol}://${hostname}:${port}${request.originalUrl}`;
+
+    upgradeTunnelLogger.debug(
+      'Upgrade request \'%s\' from client \'%s\' on upstream hostname \'%s\' to downstream URI \'%s\'',
+      request.headers.upgrade ?? request.method,
+      request.ip,
+      hostname,
+      uri,
+    );
+
+    const proxy = egressProxy.getProxy(hostname, resolvedAddress);
+
+    if (proxy === undefined) {
+      this._openTunnel(uri, hostname, port, this._connect(hostname, resolvedAddress, port, request), request, response);
+      return;
+    }
+
+    egressProxy.connect(proxy, resolvedAddress, port).then(
+      (socket) => {
+        const downstream = this._connect(hostname, resolvedAddress, port, request, socket);
+
+        this._openTunnel(uri, hostname, port, downstream, request, response);
+      },
+      (error: NodeJS.ErrnoException) =>
+        this._handleConnectError(uri, hostname, error.code ?? error.message, request, response),
+    );
+  }
+
+  // We connect to the address the hostname resolution middleware resolved to, as that is the address the
+  // LAN and loopback checks were applied to. The socket is the connection through the egress proxy, if any.
+  private static _connect(
+    hostname: string,
+    resolvedAddress: string,
+    port: number,
+    request: Request,
+    socket?: net.Socket,
+  ): net.Socket {
+    if (!this._isSecure(request)) return socket ?? net.connect({ host: resolvedAddress, port });
+
+    return tls.connect({
+      socket,
+      host: resolvedAddress,
+      port,
+      servername: net.isIP(hostname) ? undefined : hostname,
+
+      ...trustStore.getTlsOptions(hostname),
+      ...clientCertificateRulesReader.getClientCertificate(hostname),
+    });
+  }
+
+  private static _openTunnel(
+    uri: string,
+    hostname: string,
+    port: number,
+    downstream: net.Socket,
+    request: Request,
+    response: Response,
+  ): void {
+    const client = request.socket;
+    const startTime = request.context.get('startTime');
+
+    let established = false;
+
+    // Without a connect timeout, the tunnel has the total timeout to be established.
+    const timeouts = timeoutProfile.getTimeouts(hostname, request);
+
+    downstream.setTimeout(timeouts.connect > 0 ? timeouts.connect : timeouts.total);
+
+    const onEstablished = () => {
+      established = true;
+
+      const timing = Date.now() - startTime;
+
+      upgradeTunnelLogger.information(
+        'Tunnel opened from client \'%s\' to downstream URI \'%s\' in %dms.',
+        request.ip,
+        uri,
+        timing,
+      );
+      request.fireEvent('UpgradeTunnelOpened', `Tunnel opened to downstream URI '${uri}' in ${timing}ms`);
+
+      // From here on the response object is no longer used, everything is written to the socket directly.
+      response.detachSocket(client);
+
+      downstream.setTimeout(timeouts.idle);
+      client.setTimeout(timeouts.idle);
+
+      if (request.method === 'CONNECT') {
+        // The client talks to the downstream directly from here on.
+        client.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+      } else {
+        downstream.write(this._buildRequestHead(hostname, port, request));
+      }
+
+      // Anything the client sent after the request head (see WebHelper._handleUpgrade) is still in the socket,
+      // so it'll be sent along here.
+      downstream.pipe(client);
+      client.pipe(downstream);
+    };
+
+    downstream.on('timeout', () => {
+      if (!established) {
+        this._handleConnectError(uri, hostname, 'ERR_DOWNSTREAM_CONNECT_TIMEOUT', request, response);
+
+        downstream.destroy();
+        return;
+      }
+
+      upgradeTunnelLogger.debug('Tunnel to downstream URI \'%s\' was idle, closing it.', uri);
+
+      downstream.destroy();
+    });
+    client.on('timeout', () => {
+      upgradeTunnelLogger.debug('Tunnel from client \'%s\' was idle, closing it.', request.ip);
+
+      client.destroy();
+    });
+
+    downstream.on('error', (error: NodeJS.ErrnoException) => {
+      if (!established) {
+        this._handleConnectError(uri, hostname, error.code ?? error.message, request, response);
+        return;
+      }
+
+      upgradeTunnelLogger.warning('Tunnel to downstream URI \'%s\' errored: %s', uri, error.message);
+    });
+    client.on('error', (error) => {
+      upgradeTunnelLogger.debug('Tunnel from client \'%s\' errored: %s', request.ip, error.message);
+    });
+
+    downstream.on('close', () => {
+      // If the tunnel was never established, the client socket is still being used for the error response.
+      if (!established) return;
+
+      client.destroy();
+
+      upgradeTunnelLogger.information(
+        'Tunnel from client \'%s\' to downstream URI \'%s\' closed after %dms (%d bytes sent, %d bytes received).',
+        request.ip,
+        uri,
+        Date.now() - startTime,
+        downstream.bytesWritten,
+        downstream.bytesRead,
+      );
+    });
+    client.on('close', () => downstream.destroy());
+
+    if (this._isSecure(request)) {
+      downstream.once('secureConnect', onEstablished);
+    } else if (downstream.connecting) {
+      downstream.once('connect', onEstablished);
+    } else {
+      // Already connected through the egress proxy.
+      onEstablished();
+    }
+  }
+
+  // CONNECT tunnels are plain TCP, the client does the TLS handshake with the downstream itself.
+  private static _isSecure(request: Request): boolean {
+    return request.protocol === 'https' && request.method !== 'CONNECT';
+  }
+
+  private static _buildRequestHead(hostname: string, port: number, request: Request): string {
+    const headers: Record<string, string | string[]> = {
+      ...request.headers,
+
+      host: hostname,
+    };
+
+    // The upgrade itself is the one hop-by-hop exchange that has to reach the downstream.
+    hopByHopHeaders.strip(headers, ['connection', 'upgrade']);
+
+    headers.connection = 'upgrade';
+    headers.via = viaHeader.append(request.headers.via, request.httpVersion);
+
+    const transformedOrigin = request.context.get('transformedOrigin');
+    if (transformedOrigin) {
+      headers.origin = transformedOrigin;
+    }
+
+    if (environment.sendAxiosRequestWithForwardedHeaders) {
+      delete headers[environment.forwardingHeaderName.toLowerCase()];
+      delete headers[environment.forwardingPortHeaderName.toLowerCase()];
+      delete headers[environment.forwardingSchemeHeaderName.toLowerCase()];
+      delete headers[environment.forwardingTransformedHostHeaderName.toLowerCase()];
+
+      headers['x-forwarded-for'] = request.ip;
+      headers['x-forwarded-host'] = request.headers.host;
+      headers['x-forwarded-port'] = port.toString();
+      headers['x-forwarded-proto'] = request.protocol;
+      headers['x-forwarded-server'] = webUtility.getMachineID();
+      headers['x-real-ip'] = request.realIp;
+    }
+
+    if (environment.sendAxiosRequestWithStandardForwardedHeader) {
+      headers.forwarded = forwardedHeader.append(
+        request.context.get('fromTrustedProxy') ? request.headers.forwarded : undefined,
+        request,
+      );
+    }
+
+    let head = `${request.method} ${request.originalUrl} HTTP/1.1\r\n`;
+
+    for (const [name, value] of Object.entries(headers)) {
+      if (value === undefined) continue;
+
+      for (const item of Array.isArray(value) ? value : [value]) {
+        head += `${name}: ${item}\r\n`;
+      }
+    }
+
+    return head + '\r\n';
+  }
+
+  private static _handleConnectError(
+    uri: string,
+    hostname: string,
+    reason: string,
+    request: Request,
+    response: Response,
+  ): void {
+    const timing = Date.now() - request.context.get('startTime');
+
+    upgradeTunnelLogger.warning(
+      'Tunnel to downstream URI \'%s\' on upstream hostname \'%s\' failed after %dms: %s',
+      uri,
+      hostname,
+      timing,
+      reason,
+    );
+    request.fireEvent(
+      'UpgradeTunnelError',
+      `Tunnel to downstream URI '${uri}' on upstream hostname '${hostname}' failed after ${timing}ms: ${reason}`,
+    );
+
+    const classification = downstreamErrorClassifier.classify(reason, uri, timing);
+
+    response.header({
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      'x-downstream-timing': `${timing}ms`,
+    });
+
+    if (classification !== undefined) {
+      errorResponder.invoke(request, response, classification.status, classification.code, classification.message, {
+        uri,
+        timing,
+        reason,
+      });
+      return;
+    }
+
+    errorResponder.invoke(
+      request,
+      response,
+      502,
+      ErrorCode.TunnelFailed,
+      `Could not open a tunnel to the downstream URI '${uri}'.`,
+      { uri, timing, reason },
+    );
+  }
+}
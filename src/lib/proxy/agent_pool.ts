@@ -0,0 +1,174 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: agent_pool.ts
+    Description: Manages keep-alive agents for downstream requests, so sockets and TLS sessions can be reused.
+    Written by: Nikita Petko
+*/
+
+import logger from '@lib/logger';
+import environment from '@lib/environment';
+import egressProxy from '@lib/proxy/egress_proxy';
+import trustStore from '@lib/proxy/trust_store';
+import clientCertificateRulesReader from '@lib/proxy/client_certificate_rules_reader';
+
+import * as http from 'http';
+import * as https from 'https';
+
+const agentPoolLogger = new logger(
+  'agent-pool',
+  environment.logLevel,
+  environment.logToFileSystem,
+  environment.logToConsole,
+  environment.loggerCutPrefix,
+);
+
+interface PooledAgent {
+  /**
+   * The agent.
+   */
+  agent: http.Agent;
+
+  /**
+   * The TLS options the agent was created with, empty for http downstreams.
+   */
+  tlsOptions: https.AgentOptions;
+}
+
+/**
+ * Manages keep-alive agents for downstream requests.
+ *
+ * There is one agent per downstream scheme and hostname, which is replaced once the TLS options for the downstream
+ * change.
+ */
+export default abstract class AgentPool {
+  private static _agents = new Map<string, PooledAgent>();
+  private static _utilizationInterval: NodeJS.Timer = null;
+
+  /**
+   * Gets the agent for the specified downstream, creating it if it does not exist yet.
+   * @param {string} scheme The scheme of the downstream, either http or https.
+   * @param {string} hostname The hostname of the downstream.
+   * @param {string} address The address the hostname resolved to.
+   * @returns {http.Agent} The agent for the downstream.
+   */
+  public static getAgent(scheme: string, hostname: string, address: string): http.Agent {
+    const proxy = egressProxy.getProxy(hostname, address);
+
+    // Through an egress proxy we connect to the address the LAN and loopback checks were applied to, rather than
+    // letting the proxy resolve the hostname, so there is one agent per address.
+    const key = proxy === undefined ? `${scheme}://${hostname}` : `${scheme}://${hostname}@${address}`;
+
+    const tlsOptions = scheme === 'https' ? this._getTlsOptions(hostname) : {};
+
+    let pooled = this._agents.get(key);
+
+    // The agent keeps using the TLS options it was created with, requests still using it finish on it.
+    if (pooled !== undefined && !this._isSameTlsOptions(pooled.tlsOptions, tlsOptions)) {
+      agentPoolLogger.debug('TLS options for downstream \'%s\' changed, replacing its agent.', key);
+
+      pooled = undefined;
+    }
+
+    if (pooled === undefined) {
+      pooled = { agent: this._createAgent(scheme, tlsOptions), tlsOptions };
+
+      if (proxy !== undefined) egressProxy.tunnelAgent(pooled.agent, proxy, address);
+
+      agentPoolLogger.debug('Created agent for downstream \'%s\'.', key);
+
+      this._agents.set(key, pooled);
+      this._startUtilizationLogging();
+    }
+
+    return pooled.agent;
+  }
+
+  private static _getTlsOptions(hostname: string): https.AgentOptions {
+    return {
+      // How the certificate of the downstream is validated.
+      ...trustStore.getTlsOptions(hostname),
+
+      // The identity presented to downstreams that require mutual TLS.
+      ...clientCertificateRulesReader.getClientCertificate(hostname),
+    };
+  }
+
+  private static _isSameTlsOptions(left: https.AgentOptions, right: https.AgentOptions): boolean {
+    const names = new Set([...Object.keys(left), ...Object.keys(right)]);
+
+    for (const name of names) {
+      const leftValue = left[name];
+      const rightValue = right[name];
+
+      if (leftValue === rightValue) continue;
+
+      // e.g. the certificate authorities are a new array every time.
+      if (!Array.isArray(leftValue) || !Array.isArray(rightValue)) return false;
+      if (leftValue.length !== rightValue.length) return false;
+      if (leftValue.some((value, index) => value !== rightValue[index])) return false;
+    }
+
+    return true;
+  }
+
+  private static _createAgent(scheme: string, tlsOptions: https.AgentOptions): http.Agent {
+    const options: https.AgentOptions = {
+      keepAlive: true,
+      maxSockets: environment.upstreamAgentMaxSockets,
+      maxFreeSockets: environment.upstreamAgentMaxFreeSockets,
+      timeout: environment.upstreamAgentKeepAliveTimeout,
+    };
+
+    if (scheme !== 'https') return new http.Agent(options);
+
+    return new https.Agent({
+      ...options,
+
+      maxCachedSessions: environment.upstreamAgentMaxCachedTlsSessions,
+
+      ...tlsOptions,
+    });
+  }
+
+  private static _countSockets(sockets: NodeJS.ReadOnlyDict<unknown[]>): number {
+    return Object.values(sockets).reduce((count, list) => count + (list?.length ?? 0), 0);
+  }
+
+  private static _startUtilizationLogging(): void {
+    if (this._utilizationInterval !== null) return;
+
+    const interval = environment.upstreamAgentPoolLogInterval;
+
+    if (interval <= 0) return;
+
+    this._utilizationInterval = setInterval(() => {
+      for (const [key, { agent }] of this._agents) {
+        agentPoolLogger.information(
+          'Agent for downstream \'%s\' has %d active socket(s), %d free socket(s) and %d pending request(s).',
+          key,
+          this._countSockets(agent.sockets),
+          this._countSockets(agent.freeSockets),
+          this._countSockets(agent.requests),
+        );
+      }
+    }, interval);
+
+    // Don't keep the process alive just to log.
+    this._utilizationInterval.unref();
+  }
+}
@@ -0,0 +1,153 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: body_rewriter.ts
+    Description: Rewrites production hostnames in downstream response bodies to the test site the client is on, so
+                 pages loaded through the test site don't navigate off of it.
+    Written by: Nikita Petko
+*/
+
+import environment from '@lib/environment';
+import hostMapper from '@lib/proxy/host_mapper';
+
+import * as zlib from 'zlib';
+import * as stream from 'stream';
+import { Request } from 'express';
+import { AxiosResponse } from 'axios';
+
+/**
+ * Rewrites production hostnames in downstream response bodies.
+ *
+ * The body is rewritten while it's streamed, decompressing and recompressing it if it's encoded.
+ */
+export default abstract class BodyRewriter {
+  // A hostname can't be longer than this, so a longer run of hostname characters can be split safely.
+  private static readonly _maxHostnameLength = 253;
+
+  /**
+   * Determines if the body of a downstream response should be rewritten.
+   * @param {AxiosResponse} axiosResponse The downstream response.
+   * @param {Request} request The request.
+   * @returns {boolean} True if the body should be rewritten.
+   */
+  public static shouldRewrite(axiosResponse: AxiosResponse, request: Request): boolean {
+    if (!environment.enableBodyRewriting) return false;
+
+    // Nothing to map the hostnames to.
+    if (hostMapper.getTestSiteApexDomain(request.headers.host) === undefined) return false;
+
+    if (request.method === 'HEAD') return false;
+
+    // The body of a partial response can't be rewritten without changing the offsets of the range.
+    if (axiosResponse.status === 204 || axiosResponse.status === 206 || axiosResponse.status === 304) return false;
+
+    const contentType = (axiosResponse.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+    if (!environment.bodyRewritingContentTypes.includes(contentType)) return false;
+
+    return this._getEncoding(axiosResponse) !== undefined;
+  }
+
+  /**
+   * Creates the streams to pipe the body of a downstream response through to rewrite it, and updates the
+   * response's headers for the rewritten body.
+   * @param {AxiosResponse} axiosResponse The downstream response.
+   * @param {Request} request The request.
+   * @returns {stream.Transform[]} The streams, in order.
+   */
+  public static createRewriteStreams(axiosResponse: AxiosResponse, request: Request): stream.Transform[] {
+    const encoding = this._getEncoding(axiosResponse);
+    const rewriter = this._createRewriteStream(request.headers.host);
+
+    // The length and checksums of the body change, and the body isn't byte for byte the same anymore.
+    delete axiosResponse.headers['content-length'];
+    delete axiosResponse.headers['content-md5'];
+    delete axiosResponse.headers['accept-ranges'];
+
+    const etag = axiosResponse.headers.etag;
+    if (etag !== undefined && !etag.startsWith('W/')) axiosResponse.headers.etag = `W/${etag}`;
+
+    switch (encoding) {
+      case 'gzip':
+      case 'x-gzip':
+        return [zlib.createGunzip(), rewriter, zlib.createGzip()];
+      case 'deflate':
+        return [zlib.createInflate(), rewriter, zlib.createDeflate()];
+      case 'br':
+        return [zlib.createBrotliDecompress(), rewriter, zlib.createBrotliCompress()];
+      default:
+        return [rewriter];
+    }
+  }
+
+  private static _getEncoding(axiosResponse: AxiosResponse): string | undefined {
+    const encoding = (axiosResponse.headers['content-encoding'] ?? 'identity').trim().toLowerCase();
+
+    switch (encoding) {
+      case 'identity':
+      case 'gzip':
+      case 'x-gzip':
+      case 'deflate':
+      case 'br':
+        return encoding;
+      default:
+        // Unknown or multiple encodings, we can't decode it.
+        return undefined;
+    }
+  }
+
+  private static _createRewriteStream(host: string): stream.Transform {
+    const apexDomain = environment.robloxProductionApexDomain.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const hostnameRegex = new RegExp(`(?<![a-z0-9-])(?:[a-z0-9-]+\\.)*${apexDomain}(?![a-z0-9-])`, 'gi');
+
+    // Bodies are decoded as latin1, as it maps every byte to one character, so any ASCII compatible charset
+    // (including UTF-8) is written back byte for byte.
+    const replace = (text: string) =>
+      text.replace(hostnameRegex, (hostname) => {
+        // Already a test site hostname, e.g. if the test site is under the production apex domain.
+        if (hostMapper.getTestSiteApexDomain(hostname) !== undefined) return hostname;
+
+        return hostMapper.toTestSiteHostname(hostname, host);
+      });
+
+    // A hostname can be split between chunks, so the trailing run of hostname characters is carried over to the
+    // next chunk. The last character before it is kept as context for the lookbehind.
+    let carry = '';
+    let context = '';
+
+    const rewriteText = (text: string) => replace(context + text).substring(context.length);
+
+    return new stream.Transform({
+      transform: (chunk: Buffer, _encoding, callback) => {
+        const text = carry + chunk.toString('latin1');
+
+        let splitIndex = text.search(/[a-z0-9.-]*$/i);
+
+        if (text.length - splitIndex > this._maxHostnameLength) splitIndex = text.length - this._maxHostnameLength;
+
+        const rewritten = rewriteText(text.substring(0, splitIndex));
+
+        context = text.substring(Math.max(splitIndex - 1, 0), splitIndex) || context;
+        carry = text.substring(splitIndex);
+
+        callback(null, Buffer.from(rewritten, 'latin1'));
+      },
+      flush: (callback) => {
+        callback(null, Buffer.from(rewriteText(carry), 'latin1'));
+      },
+    });
+  }
+}
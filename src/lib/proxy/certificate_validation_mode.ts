@@ -0,0 +1,50 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: certificate_validation_mode.ts
+    Description: A simple enum to represent how the certificate of a downstream is validated.
+    Written by: Nikita Petko
+*/
+
+/**
+ * Represents how the certificate of a downstream is validated.
+ *
+ * @enum {string} The validation modes.
+ */
+export enum CertificateValidationMode {
+  /**
+   * The certificate has to be signed by one of the system's certificate authorities.
+   */
+  Strict = 'strict',
+
+  /**
+   * The certificate has to be signed by one of the system's certificate authorities, or one of the custom
+   * certificate authorities in CERTIFICATE_VALIDATION_CA_BUNDLES.
+   */
+  Custom = 'custom',
+
+  /**
+   * Same as custom, but one of the certificates in the chain also has to have a public key that matches one of the
+   * pinned SPKI hashes.
+   */
+  Pinned = 'pinned',
+
+  /**
+   * The certificate is not validated.
+   */
+  Disabled = 'disabled',
+}
@@ -0,0 +1,150 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: certificate_validation_rules_reader.ts
+    Description: This will read the certificate validation rules that determine how the certificates of downstreams
+                 are validated.
+    Written by: Nikita Petko
+*/
+
+import environment from '@lib/environment';
+import { CertificateValidationMode } from '@lib/proxy/certificate_validation_mode';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+
+interface CertificateValidationRule {
+  //////////////////////////////////////////////////////////////////////////////
+  // Resolution section.
+  //
+  // This section is used to determine what conditions are met to allow the
+  // this configuration to be used.
+  //////////////////////////////////////////////////////////////////////////////
+
+  /**
+   * A regexp that matches the downstream hostname.
+   *
+   * Defaults to `/.+/`.
+   */
+  hostnameTemplate: RegExp | string;
+
+  /////////////////////////////////////////////////////////////////////////////
+  // Validation section.
+  //
+  // This section is used to determine how the certificate is validated.
+  /////////////////////////////////////////////////////////////////////////////
+
+  /**
+   * How the certificate of the downstream is validated.
+   */
+  mode: CertificateValidationMode;
+
+  /**
+   * The base64 encoded SHA-256 hashes of the public keys (SPKI) that are
+   * accepted, optionally prefixed with `sha256/`.
+   *
+   * @remarks Only used by the pinned mode, which requires at least one.
+   */
+  pins: string[];
+}
+
+export default abstract class CertificateValidationRulesReader {
+  private static _initialized = false;
+
+  private static _certificateValidationRules: CertificateValidationRule[] = [];
+
+  private static _removeRule(rule: CertificateValidationRule) {
+    this._certificateValidationRules = this._certificateValidationRules.filter((r) => r !== rule);
+  }
+
+  /**
+   * Initialize the certificate validation rules.
+   * @returns {void} Nothing.
+   */
+  private static _initialize(): void {
+    if (this._initialized) return;
+
+    this._initialized = true;
+
+    const rulesFile = path.join(
+      environment.certificateValidationRulesBaseDirectory,
+      environment.certificateValidationRulesFileName,
+    );
+
+    if (!fs.existsSync(rulesFile)) return;
+
+    const fileExtension = path.extname(rulesFile);
+
+    switch (fileExtension) {
+      case '.json':
+        this._certificateValidationRules = JSON.parse(fs.readFileSync(rulesFile, 'utf8')) ?? [];
+        break;
+      case '.yaml':
+      case '.yml':
+        this._certificateValidationRules =
+          (yaml.load(fs.readFileSync(rulesFile, 'utf8')) as CertificateValidationRule[]) ?? [];
+        break;
+      default:
+        throw new Error(`Unsupported file extension: ${fileExtension}`);
+    }
+
+    const modes = Object.values(CertificateValidationMode) as string[];
+
+    // Validate the rules.
+    for (const rule of [...this._certificateValidationRules]) {
+      if (!rule.hostnameTemplate) {
+        rule.hostnameTemplate = /(.+)?/;
+      }
+      if (typeof rule.hostnameTemplate === 'string') {
+        rule.hostnameTemplate = new RegExp(rule.hostnameTemplate, 'i');
+      }
+
+      if (typeof rule.mode !== 'string' || !modes.includes(rule.mode.toLowerCase())) {
+        this._removeRule(rule);
+        continue;
+      }
+
+      rule.mode = rule.mode.toLowerCase() as CertificateValidationMode;
+
+      if (!rule.pins) rule.pins = [];
+      if (!Array.isArray(rule.pins) || rule.pins.some((pin) => typeof pin !== 'string')) {
+        this._removeRule(rule);
+        continue;
+      }
+
+      // A pinned rule without pins would reject every certificate.
+      if (rule.mode === CertificateValidationMode.Pinned && rule.pins.length === 0) {
+        this._removeRule(rule);
+        continue;
+      }
+
+      rule.pins = rule.pins.map((pin) => pin.replace(/^sha256\//i, ''));
+    }
+  }
+
+  /**
+   * Get the certificate validation rule for a downstream.
+   * @param {string} hostname The hostname of the downstream.
+   * @returns {CertificateValidationRule | undefined} The certificate validation rule for the downstream.
+   */
+  public static getRule(hostname: string): CertificateValidationRule | undefined {
+    this._initialize();
+
+    return this._certificateValidationRules.find((r) => (r.hostnameTemplate as RegExp).test(hostname));
+  }
+}
@@ -0,0 +1,283 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: circuit_breaker.ts
+    Description: A circuit breaker per downstream hostname, so requests fail fast while a downstream is unhealthy.
+    Written by: Nikita Petko
+*/
+
+import '@lib/extensions/express/request';
+
+import logger from '@lib/logger';
+import environment from '@lib/environment';
+
+import { Request } from 'express';
+
+const circuitBreakerLogger = new logger(
+  'circuit-breaker',
+  environment.logLevel,
+  environment.logToFileSystem,
+  environment.logToConsole,
+  environment.loggerCutPrefix,
+);
+
+/**
+ * The state of a circuit.
+ */
+enum CircuitState {
+  Closed = 'closed',
+  Open = 'open',
+  HalfOpen = 'half-open',
+}
+
+/**
+ * The outcomes of requests within one second of the sliding window.
+ */
+interface WindowBucket {
+  second: number;
+  successes: number;
+  failures: number;
+
+  // eslint-disable-next-line semi
+}
+
+interface Circuit {
+  state: CircuitState;
+
+  /**
+   * The time the circuit was last opened, in milliseconds since the epoch.
+   */
+  openedAt: number;
+
+  /**
+   * The amount of trial requests that haven't finished yet while half-open.
+   */
+  trialsInFlight: number;
+
+  /**
+   * The amount of trial requests that succeeded while half-open.
+   */
+  trialSuccesses: number;
+
+  buckets: WindowBucket[];
+
+  // eslint-disable-next-line semi
+}
+
+/**
+ * A circuit breaker per downstream hostname.
+ *
+ * The circuit opens when the ratio of failed requests within the sliding window reaches
+ * CIRCUIT_BREAKER_FAILURE_PERCENTAGE. While open every request is rejected, after CIRCUIT_BREAKER_OPEN_DURATION
+ * the circuit is half-open and lets a few trial requests through. If they all succeed the circuit closes, if any
+ * of them fail it opens again.
+ */
+export default abstract class CircuitBreaker {
+  private static _circuits = new Map<string, Circuit>();
+
+  /**
+   * Determines if a request can be sent to the downstream. Every request that is allowed has to be followed by a
+   * call to recordSuccess, recordFailure or release.
+   * @param {string} hostname The hostname of the downstream.
+   * @param {Request} request The request.
+   * @returns {boolean} True if the request can be sent.
+   */
+  public static tryAcquire(hostname: string, request: Request): boolean {
+    request.context.set('circuitBreakerTrial', false);
+
+    if (!environment.enableCircuitBreaker) return true;
+
+    const circuit = this._getCircuit(hostname);
+
+    if (circuit.state === CircuitState.Closed) return true;
+
+    if (circuit.state === CircuitState.Open) {
+      if (Date.now() - circuit.openedAt < environment.circuitBreakerOpenDuration) return false;
+
+      circuit.state = CircuitState.HalfOpen;
+      circuit.trialsInFlight = 0;
+      circuit.trialSuccesses = 0;
+
+      this._reportTransition(hostname, circuit, request);
+    }
+
+    if (circuit.trialsInFlight >= environment.circuitBreakerHalfOpenMaxRequests) return false;
+
+    circuit.trialsInFlight++;
+    request.context.set('circuitBreakerTrial', true);
+
+    return true;
+  }
+
+  /**
+   * Records a successful request to the downstream.
+   * @param {string} hostname The hostname of the downstream.
+   * @param {Request} request The request.
+   * @returns {void} Nothing.
+   */
+  public static recordSuccess(hostname: string, request: Request): void {
+    if (!environment.enableCircuitBreaker) return;
+
+    const circuit = this._getCircuit(hostname);
+
+    if (this._releaseTrial(circuit, request)) {
+      circuit.trialSuccesses++;
+
+      if (circuit.trialSuccesses < environment.circuitBreakerHalfOpenMaxRequests) return;
+
+      circuit.state = CircuitState.Closed;
+      circuit.buckets = [];
+
+      this._reportTransition(hostname, circuit, request);
+      return;
+    }
+
+    if (circuit.state !== CircuitState.Closed) return;
+
+    this._getCurrentBucket(circuit).successes++;
+  }
+
+  /**
+   * Records a failed request to the downstream.
+   * @param {string} hostname The hostname of the downstream.
+   * @param {Request} request The request.
+   * @returns {void} Nothing.
+   */
+  public static recordFailure(hostname: string, request: Request): void {
+    if (!environment.enableCircuitBreaker) return;
+
+    const circuit = this._getCircuit(hostname);
+
+    if (this._releaseTrial(circuit, request)) {
+      this._open(hostname, circuit, request);
+      return;
+    }
+
+    if (circuit.state !== CircuitState.Closed) return;
+
+    this._getCurrentBucket(circuit).failures++;
+
+    let successes = 0;
+    let failures = 0;
+
+    for (const bucket of circuit.buckets) {
+      successes += bucket.successes;
+      failures += bucket.failures;
+    }
+
+    const total = successes + failures;
+
+    if (total < environment.circuitBreakerMinimumRequests) return;
+    if ((failures / total) * 100 < environment.circuitBreakerFailurePercentage) return;
+
+    this._open(hostname, circuit, request);
+  }
+
+  /**
+   * Releases a request that finished without telling us anything about the downstream, e.g. the client went away.
+   * @param {string} hostname The hostname of the downstream.
+   * @param {Request} request The request.
+   * @returns {void} Nothing.
+   */
+  public static release(hostname: string, request: Request): void {
+    if (!environment.enableCircuitBreaker) return;
+
+    this._releaseTrial(this._getCircuit(hostname), request);
+  }
+
+  /**
+   * Gets how long until the circuit for the downstream lets requests through again.
+   * @param {string} hostname The hostname of the downstream.
+   * @returns {number} The time in seconds, at least 1.
+   */
+  public static getRetryAfter(hostname: string): number {
+    const circuit = this._getCircuit(hostname);
+
+    const remaining = circuit.openedAt + environment.circuitBreakerOpenDuration - Date.now();
+
+    return Math.max(Math.ceil(remaining / 1000), 1);
+  }
+
+  private static _getCircuit(hostname: string): Circuit {
+    let circuit = this._circuits.get(hostname);
+
+    if (circuit === undefined) {
+      circuit = {
+        state: CircuitState.Closed,
+        openedAt: 0,
+        trialsInFlight: 0,
+        trialSuccesses: 0,
+        buckets: [],
+      };
+
+      this._circuits.set(hostname, circuit);
+    }
+
+    return circuit;
+  }
+
+  private static _getCurrentBucket(circuit: Circuit): WindowBucket {
+    const second = Math.floor(Date.now() / 1000);
+    const oldestSecond = second - Math.ceil(environment.circuitBreakerWindow / 1000) + 1;
+
+    circuit.buckets = circuit.buckets.filter((bucket) => bucket.second >= oldestSecond);
+
+    let bucket = circuit.buckets[circuit.buckets.length - 1];
+
+    if (bucket?.second !== second) {
+      bucket = { second, successes: 0, failures: 0 };
+
+      circuit.buckets.push(bucket);
+    }
+
+    return bucket;
+  }
+
+  private static _releaseTrial(circuit: Circuit, request: Request): boolean {
+    if (!request.context.get('circuitBreakerTrial')) return false;
+
+    request.context.set('circuitBreakerTrial', false);
+
+    // The circuit may have been opened by another trial in the meantime.
+    if (circuit.state !== CircuitState.HalfOpen) return false;
+
+    circuit.trialsInFlight--;
+
+    return true;
+  }
+
+  private static _open(hostname: string, circuit: Circuit, request: Request): void {
+    circuit.state = CircuitState.Open;
+    circuit.openedAt = Date.now();
+    circuit.buckets = [];
+
+    this._reportTransition(hostname, circuit, request);
+  }
+
+  private static _reportTransition(hostname: string, circuit: Circuit, request: Request): void {
+    if (circuit.state === CircuitState.Open) {
+      circuitBreakerLogger.warning('Circuit for downstream hostname \'%s\' is now open.', hostname);
+    } else {
+      circuitBreakerLogger.information('Circuit for downstream hostname \'%s\' is now %s.', hostname, circuit.state);
+    }
+
+    request.fireEvent(
+      'CircuitBreakerStateChanged',
+      `Circuit for downstream hostname '${hostname}' is now ${circuit.state}`,
+    );
+  }
+}
@@ -0,0 +1,157 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: client_certificate_rules_reader.ts
+    Description: This will read the client certificate rules that determine which identity is presented to upstreams
+                 that require mutual TLS.
+    Written by: Nikita Petko
+*/
+
+import environment from '@lib/environment';
+import pemReader from '@lib/setup/utility/pem_reader';
+
+import * as fs from 'fs';
+import * as tls from 'tls';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+
+interface ClientCertificateRule {
+  //////////////////////////////////////////////////////////////////////////////
+  // Resolution section.
+  //
+  // This section is used to determine what conditions are met to allow the
+  // this configuration to be used.
+  //////////////////////////////////////////////////////////////////////////////
+
+  /**
+   * A regexp that matches the downstream hostname.
+   *
+   * Defaults to `/.+/`.
+   */
+  hostnameTemplate: RegExp | string;
+
+  /////////////////////////////////////////////////////////////////////////////
+  // Identity section.
+  //
+  // This section is used to determine the identity presented to the
+  // downstream.
+  /////////////////////////////////////////////////////////////////////////////
+
+  /**
+   * The client certificate, either the PEM contents or a path relative to the
+   * SSL base directory.
+   *
+   * @remarks The intermediate certificates can be appended to it.
+   */
+  certificate: string;
+
+  /**
+   * The private key of the client certificate, either the PEM contents or a
+   * path relative to the SSL base directory.
+   */
+  key: string;
+
+  /**
+   * The passphrase of the private key, if it is encrypted.
+   */
+  passphrase: string;
+}
+
+export default abstract class ClientCertificateRulesReader {
+  private static _initialized = false;
+
+  private static _clientCertificateRules: ClientCertificateRule[] = [];
+
+  private static _removeRule(rule: ClientCertificateRule) {
+    this._clientCertificateRules = this._clientCertificateRules.filter((r) => r !== rule);
+  }
+
+  /**
+   * Initialize the client certificate rules.
+   * @returns {void} Nothing.
+   */
+  private static _initialize(): void {
+    if (this._initialized) return;
+
+    this._initialized = true;
+
+    const rulesFile = path.join(
+      environment.clientCertificateRulesBaseDirectory,
+      environment.clientCertificateRulesFileName,
+    );
+
+    if (!fs.existsSync(rulesFile)) return;
+
+    const fileExtension = path.extname(rulesFile);
+
+    switch (fileExtension) {
+      case '.json':
+        this._clientCertificateRules = JSON.parse(fs.readFileSync(rulesFile, 'utf8')) ?? [];
+        break;
+      case '.yaml':
+      case '.yml':
+        this._clientCertificateRules = (yaml.load(fs.readFileSync(rulesFile, 'utf8')) as ClientCertificateRule[]) ?? [];
+        break;
+      default:
+        throw new Error(`Unsupported file extension: ${fileExtension}`);
+    }
+
+    // Validate the rules.
+    for (const rule of [...this._clientCertificateRules]) {
+      if (!rule.hostnameTemplate) {
+        rule.hostnameTemplate = /(.+)?/;
+      }
+      if (typeof rule.hostnameTemplate === 'string') {
+        rule.hostnameTemplate = new RegExp(rule.hostnameTemplate, 'i');
+      }
+
+      if (typeof rule.certificate !== 'string' || typeof rule.key !== 'string') {
+        this._removeRule(rule);
+        continue;
+      }
+
+      if (rule.passphrase !== undefined && rule.passphrase !== null && typeof rule.passphrase !== 'string') {
+        this._removeRule(rule);
+        continue;
+      }
+
+      // Read them once here, rather than every time an agent or tunnel is created for the downstream.
+      rule.certificate = pemReader.readCertificate(rule.certificate, environment.sslBaseDirectory);
+      rule.key = pemReader.readPrivateKey(rule.key, environment.sslBaseDirectory);
+    }
+  }
+
+  /**
+   * Get the client certificate to present to a downstream.
+   * @param {string} hostname The hostname of the downstream.
+   * @returns {tls.SecureContextOptions | undefined} The client certificate, or undefined if the downstream doesn't need
+   * one.
+   */
+  public static getClientCertificate(hostname: string): tls.SecureContextOptions | undefined {
+    this._initialize();
+
+    const rule = this._clientCertificateRules.find((r) => (r.hostnameTemplate as RegExp).test(hostname));
+
+    if (rule === undefined) return undefined;
+
+    return {
+      cert: rule.certificate,
+      key: rule.key,
+      passphrase: rule.passphrase ?? undefined,
+    };
+  }
+}
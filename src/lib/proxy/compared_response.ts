@@ -0,0 +1,53 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: compared_response.ts
+    Description: A downstream response that is compared by the traffic mirror.
+    Written by: Nikita Petko
+*/
+
+/**
+ * A downstream response that is compared by the traffic mirror.
+ */
+export default interface ComparedResponse {
+  /**
+   * The status code of the response, undefined if there was no response.
+   */
+  status?: number;
+
+  /**
+   * The error code, if the request or response failed.
+   */
+  error?: string;
+
+  /**
+   * The time it took to get the full response, in milliseconds.
+   */
+  latency: number;
+
+  /**
+   * The headers of the response as the downstream sent them, only captured in diff mode.
+   */
+  headers?: { [key: string]: string | string[] };
+
+  /**
+   * The body of the response as the downstream sent it, only captured in diff mode and if it isn't too large.
+   */
+  body?: Buffer;
+
+  // eslint-disable-next-line semi
+}
@@ -0,0 +1,132 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: downstream_error_classifier.ts
+    Description: Determines how the client is responded to when a request to a downstream failed.
+    Written by: Nikita Petko
+*/
+
+import trustStore from '@lib/proxy/trust_store';
+import timeoutProfile from '@lib/proxy/timeout_profile';
+import { ErrorCode } from '@lib/responders/error_code';
+
+interface DownstreamErrorClassification {
+  /**
+   * The status code to respond with.
+   */
+  status: number;
+
+  /**
+   * The error code to respond with.
+   */
+  code: ErrorCode;
+
+  /**
+   * The message to respond with.
+   */
+  message: string;
+}
+
+/**
+ * Determines how the client is responded to when a request to a downstream failed.
+ *
+ * Timeouts are responded to with a 504, failed connections with a 502 and a lack of resources on our end with a 503.
+ */
+export default abstract class DownstreamErrorClassifier {
+  private static readonly _connectionErrorReasons: Record<string, string> = {
+    /* eslint-disable @typescript-eslint/naming-convention */
+    ECONNREFUSED: 'the connection was refused',
+    ECONNRESET: 'the connection was reset',
+    EPIPE: 'the connection was closed',
+    ENOTFOUND: 'the hostname could not be resolved',
+    EAI_AGAIN: 'the hostname could not be resolved',
+    EHOSTUNREACH: 'the host is unreachable',
+    ENETUNREACH: 'the network is unreachable',
+    EACCES: 'the egress proxy did not allow the connection',
+    ERR_EGRESS_PROXY_CONNECT_FAILED: 'the egress proxy could not connect to it',
+    ERR_EGRESS_PROXY_AUTHENTICATION_FAILED: 'the egress proxy rejected our credentials',
+    ERR_SOCKS_GENERAL_FAILURE: 'the egress proxy failed to connect to it',
+    /* eslint-enable @typescript-eslint/naming-convention */
+  };
+
+  private static readonly _resourceErrorCodes = ['EMFILE', 'ENFILE', 'ENOBUFS', 'ENOMEM'];
+
+  /**
+   * Determines if the error of a failed request to a downstream is the downstream's fault, as opposed to e.g. the
+   * client aborting or sending a body that's too large.
+   * @param {string} code The error code.
+   * @returns {boolean} True if the downstream timed out, or the connection or TLS handshake with it failed.
+   */
+  public static isDownstreamFault(code: string): boolean {
+    if (code === undefined || code === null) return false;
+
+    return (
+      timeoutProfile.getErrorReason(code) !== undefined ||
+      trustStore.getErrorReason(code) !== undefined ||
+      Object.prototype.hasOwnProperty.call(this._connectionErrorReasons, code)
+    );
+  }
+
+  /**
+   * Classifies the error of a failed request to a downstream.
+   * @param {string} code The error code.
+   * @param {string} uri The downstream URI.
+   * @param {number} timing How long the request took, in milliseconds.
+   * @returns {DownstreamErrorClassification | undefined} The classification, or undefined if the error is unknown.
+   */
+  public static classify(code: string, uri: string, timing: number): DownstreamErrorClassification | undefined {
+    if (code === undefined || code === null) return undefined;
+
+    const timeoutReason = timeoutProfile.getErrorReason(code);
+
+    if (timeoutReason !== undefined) {
+      return {
+        status: 504,
+        code: ErrorCode.DownstreamTimeout,
+        message: `The downstream URI '${uri}' timed out after ${timing}ms: ${timeoutReason}.`,
+      };
+    }
+
+    const tlsErrorReason = trustStore.getErrorReason(code);
+
+    if (tlsErrorReason !== undefined) {
+      return {
+        status: 502,
+        code: ErrorCode.DownstreamTlsFailed,
+        message: `Could not establish a secure connection to the downstream URI '${uri}': ${tlsErrorReason}.`,
+      };
+    }
+
+    if (Object.prototype.hasOwnProperty.call(this._connectionErrorReasons, code)) {
+      return {
+        status: 502,
+        code: ErrorCode.DownstreamConnectionFailed,
+        message: `Could not get a response from the downstream URI '${uri}': ${this._connectionErrorReasons[code]}.`,
+      };
+    }
+
+    if (this._resourceErrorCodes.includes(code)) {
+      return {
+        status: 503,
+        code: ErrorCode.ProxyOverloaded,
+        message: `Could not send the request to the downstream URI '${uri}': the proxy is out of resources.`,
+      };
+    }
+
+    return undefined;
+  }
+}
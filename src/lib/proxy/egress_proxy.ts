@@ -0,0 +1,312 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: egress_proxy.ts
+    Description: Opens connections to downstreams through an egress proxy, either with HTTP CONNECT or SOCKS5.
+    Written by: Nikita Petko
+*/
+
+import environment from '@lib/environment';
+import egressProxyRulesReader from '@lib/proxy/egress_proxy_rules_reader';
+
+import * as nodeNet from 'net';
+import * as http from 'http';
+import * as https from 'https';
+import net from '@mfdlabs/net';
+
+/**
+ * Opens connections to downstreams through an egress proxy.
+ */
+export default abstract class EgressProxy {
+  private static readonly _socksReplyErrorCodes = [
+    undefined,
+    'ERR_SOCKS_GENERAL_FAILURE',
+    'EACCES',
+    'ENETUNREACH',
+    'EHOSTUNREACH',
+    'ECONNREFUSED',
+    'ETIMEDOUT',
+  ];
+
+  /**
+   * Gets the proxy a downstream is reached through.
+   * @param {string} hostname The hostname of the downstream.
+   * @param {string} address The address the hostname resolved to.
+   * @returns {URL | undefined} The URL of the proxy, or undefined if the downstream is connected to directly.
+   */
+  public static getProxy(hostname: string, address: string): URL | undefined {
+    if (this._isExcluded(hostname, address)) return undefined;
+
+    return egressProxyRulesReader.getProxy(hostname);
+  }
+
+  /**
+   * Opens a connection to a downstream through a proxy.
+   *
+   * The address is given to the proxy rather than the hostname, so that the downstream it connects to is the one the
+   * LAN and loopback checks were applied to.
+   * @param {URL} proxy The URL of the proxy.
+   * @param {string} address The address of the downstream.
+   * @param {number} port The port of the downstream.
+   * @returns {Promise<nodeNet.Socket>} The connection, ready to be used as if it was to the downstream.
+   */
+  public static connect(proxy: URL, address: string, port: number): Promise<nodeNet.Socket> {
+    return new Promise((resolve, reject) => {
+      const socket = nodeNet.connect({
+        host: proxy.hostname.replace(/^\[|\]$/g, ''),
+        port: parseInt(proxy.port, 10) || (proxy.protocol === 'socks5:' ? 1080 : 80),
+      });
+
+      socket.setTimeout(environment.sendAxiosRequestTimeout, () =>
+        socket.destroy(this._createError(`Timed out connecting through proxy '${proxy.host}'.`, 'ETIMEDOUT')),
+      );
+
+      const handshake =
+        proxy.protocol === 'socks5:'
+          ? this._socksHandshake(socket, proxy, address, port)
+          : this._connectHandshake(socket, proxy, address, port);
+
+      socket.once('error', reject);
+
+      handshake.then(
+        () => {
+          socket.removeListener('error', reject);
+          socket.setTimeout(0);
+
+          resolve(socket);
+        },
+        (error) => {
+          socket.destroy();
+
+          reject(error);
+        },
+      );
+    });
+  }
+
+  /**
+   * Makes an agent open its connections through a proxy.
+   * @param {http.Agent} agent The agent.
+   * @param {URL} proxy The URL of the proxy.
+   * @param {string} address The address of the downstream.
+   * @returns {void} Nothing.
+   */
+  public static tunnelAgent(agent: http.Agent, proxy: URL, address: string): void {
+    const tunneledAgent = agent as http.Agent & {
+      createConnection: (
+        options: https.RequestOptions & { socket?: nodeNet.Socket },
+        callback?: (error: Error, socket?: nodeNet.Socket) => void,
+      ) => nodeNet.Socket | undefined;
+    };
+
+    // The https agent wraps the connection in TLS, and takes care of the TLS session cache.
+    const createConnection = tunneledAgent.createConnection.bind(agent);
+
+    tunneledAgent.createConnection = (options, callback) => {
+      this.connect(proxy, address, parseInt(options.port as string, 10)).then(
+        (socket) => callback(null, agent instanceof https.Agent ? createConnection({ ...options, socket }) : socket),
+        (error) => callback(error),
+      );
+
+      return undefined;
+    };
+  }
+
+  private static _isExcluded(hostname: string, address: string): boolean {
+    for (const exclusion of environment.egressProxyExclusions) {
+      if (exclusion === '*') return true;
+
+      if (exclusion.includes('/')) {
+        if (net.isIPv4InCidrRangeList(address, [exclusion]) || net.isIPv6InCidrRangeList(address, [exclusion])) {
+          return true;
+        }
+
+        continue;
+      }
+
+      if (exclusion === address) return true;
+
+      // Like NO_PROXY, both example.com and .example.com exclude the domain and its subdomains.
+      const domain = exclusion.replace(/^\*?\./, '').toLowerCase();
+
+      if (hostname.toLowerCase() === domain || hostname.toLowerCase().endsWith(`.${domain}`)) return true;
+    }
+
+    return false;
+  }
+
+  private static async _connectHandshake(
+    socket: nodeNet.Socket,
+    proxy: URL,
+    address: string,
+    port: number,
+  ): Promise<void> {
+    const authority = nodeNet.isIPv6(address) ? `[${address}]:${port}` : `${address}:${port}`;
+
+    let head = `CONNECT ${authority} HTTP/1.1\r\nHost: ${authority}\r\n`;
+
+    if (proxy.username) {
+      head += `Proxy-Authorization: Basic ${this._getCredentials(proxy).toString('base64')}\r\n`;
+    }
+
+    await this._waitForConnect(socket);
+
+    socket.write(head + '\r\n');
+
+    const response = await this._readResponseHead(socket);
+    const status = parseInt(response.split(' ')[1], 10);
+
+    if (status < 200 || status > 299 || isNaN(status)) {
+      throw this._createError(
+        `Proxy '${proxy.host}' refused to connect to '${authority}': ${response.split('\r\n')[0]}`,
+        status === 407 ? 'ERR_EGRESS_PROXY_AUTHENTICATION_FAILED' : 'ERR_EGRESS_PROXY_CONNECT_FAILED',
+      );
+    }
+  }
+
+  private static async _socksHandshake(
+    socket: nodeNet.Socket,
+    proxy: URL,
+    address: string,
+    port: number,
+  ): Promise<void> {
+    await this._waitForConnect(socket);
+
+    // Version 5, either no authentication or username/password authentication.
+    socket.write(Buffer.from(proxy.username ? [0x05, 0x02, 0x00, 0x02] : [0x05, 0x01, 0x00]));
+
+    const [, method] = await this._read(socket, 2);
+
+    if (method === 0x02 && proxy.username) {
+      const username = Buffer.from(decodeURIComponent(proxy.username));
+      const password = Buffer.from(decodeURIComponent(proxy.password));
+
+      socket.write(
+        Buffer.concat([Buffer.from([0x01, username.length]), username, Buffer.from([password.length]), password]),
+      );
+
+      const [, status] = await this._read(socket, 2);
+
+      if (status !== 0x00) {
+        throw this._createError(
+          `Proxy '${proxy.host}' rejected the credentials.`,
+          'ERR_EGRESS_PROXY_AUTHENTICATION_FAILED',
+        );
+      }
+    } else if (method !== 0x00) {
+      throw this._createError(
+        `Proxy '${proxy.host}' doesn't support any of the authentication methods.`,
+        'ERR_EGRESS_PROXY_AUTHENTICATION_FAILED',
+      );
+    }
+
+    const isIPv6 = nodeNet.isIPv6(address);
+    const destination = isIPv6 ? this._getIPv6Bytes(address) : Buffer.from(address.split('.').map(Number));
+    const portBytes = Buffer.alloc(2);
+
+    portBytes.writeUInt16BE(port);
+
+    // Connect, with either an IPv4 or IPv6 address.
+    socket.write(Buffer.concat([Buffer.from([0x05, 0x01, 0x00, isIPv6 ? 0x04 : 0x01]), destination, portBytes]));
+
+    const [, reply, , addressType] = await this._read(socket, 4);
+
+    if (reply !== 0x00) {
+      throw this._createError(
+        `Proxy '${proxy.host}' failed to connect to '${address}:${port}' with reply ${reply}.`,
+        this._socksReplyErrorCodes[reply] ?? 'ERR_SOCKS_GENERAL_FAILURE',
+      );
+    }
+
+    // The bound address and port, we don't need them.
+    if (addressType === 0x03) {
+      const [length] = await this._read(socket, 1);
+
+      await this._read(socket, length + 2);
+    } else {
+      await this._read(socket, (addressType === 0x04 ? 16 : 4) + 2);
+    }
+  }
+
+  private static _waitForConnect(socket: nodeNet.Socket): Promise<void> {
+    if (!socket.connecting) return Promise.resolve();
+
+    return new Promise((resolve) => socket.once('connect', () => resolve()));
+  }
+
+  private static _read(socket: nodeNet.Socket, length: number): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        socket.removeListener('readable', onReadable);
+        socket.removeListener('close', onClose);
+      };
+      const onReadable = () => {
+        const chunk = socket.read(length) as Buffer;
+
+        if (chunk === null) return;
+
+        cleanup();
+        resolve(chunk);
+      };
+      const onClose = () => {
+        cleanup();
+        reject(this._createError('The proxy closed the connection during the handshake.', 'ECONNRESET'));
+      };
+
+      socket.on('readable', onReadable);
+      socket.on('close', onClose);
+
+      onReadable();
+    });
+  }
+
+  private static async _readResponseHead(socket: nodeNet.Socket): Promise<string> {
+    let head = Buffer.alloc(0);
+
+    // Read a byte at a time, so nothing the downstream sends after the response head is consumed.
+    while (!head.subarray(-4).equals(Buffer.from('\r\n\r\n'))) {
+      head = Buffer.concat([head, await this._read(socket, 1)]);
+
+      if (head.length > 16 * 1024) {
+        throw this._createError('The response head of the proxy is too large.', 'ERR_EGRESS_PROXY_CONNECT_FAILED');
+      }
+    }
+
+    return head.toString('latin1');
+  }
+
+  private static _getCredentials(proxy: URL): Buffer {
+    return Buffer.from(`${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`);
+  }
+
+  private static _getIPv6Bytes(address: string): Buffer {
+    const [head, tail = ''] = address.split('::');
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = address.includes('::') ? (tail ? tail.split(':') : []) : [];
+    const groups = [...headGroups, ...new Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups];
+
+    const bytes = Buffer.alloc(16);
+
+    groups.forEach((group, index) => bytes.writeUInt16BE(parseInt(group, 16), index * 2));
+
+    return bytes;
+  }
+
+  private static _createError(message: string, code: string): NodeJS.ErrnoException {
+    return Object.assign(new Error(message), { code });
+  }
+}
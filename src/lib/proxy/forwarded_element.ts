@@ -0,0 +1,48 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: forwarded_element.ts
+    Description: A single element of a Forwarded header, the information added by one proxy.
+    Written by: Nikita Petko
+*/
+
+/**
+ * A single element of a Forwarded header (RFC 7239), the information added by one proxy.
+ */
+export default interface ForwardedElement {
+  /**
+   * The node the request came in from, e.g. 192.0.2.60, [2001:db8:cafe::17]:4711, unknown or _hidden.
+   */
+  for?: string;
+
+  /**
+   * The node the request was received on by the proxy.
+   */
+  by?: string;
+
+  /**
+   * The Host header the proxy received.
+   */
+  host?: string;
+
+  /**
+   * The scheme the proxy received the request with.
+   */
+  proto?: string;
+
+  // eslint-disable-next-line semi
+}
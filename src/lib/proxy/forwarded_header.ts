@@ -0,0 +1,162 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: forwarded_header.ts
+    Description: Parses and builds the standardized Forwarded header (RFC 7239).
+    Written by: Nikita Petko
+*/
+
+import '@lib/extensions/express/request';
+
+import forwardedElement from '@lib/proxy/forwarded_element';
+
+import net from '@mfdlabs/net';
+import { Request } from 'express';
+
+/**
+ * Parses and builds the standardized Forwarded header.
+ *
+ * e.g. Forwarded: for=192.0.2.43, for="[2001:db8:cafe::17]:4711";proto=https;host=www.roblox.com
+ */
+export default abstract class ForwardedHeader {
+  private static readonly _parameters = ['for', 'by', 'host', 'proto'];
+
+  /**
+   * Parses a Forwarded header.
+   * @param {string | string[]} header The Forwarded header.
+   * @returns {forwardedElement[]} The elements, in the order the proxies added them, or an empty array if the header
+   * is malformed.
+   */
+  public static parse(header: string | string[]): forwardedElement[] {
+    if (header === undefined || header === null) return [];
+
+    const value = Array.isArray(header) ? header.join(',') : header;
+
+    const elements: forwardedElement[] = [];
+    let element: forwardedElement = {};
+    let position = 0;
+
+    while (position < value.length) {
+      const character = value[position];
+
+      if (character === ' ' || character === '\t' || character === ';') {
+        position++;
+        continue;
+      }
+
+      if (character === ',') {
+        elements.push(element);
+        element = {};
+        position++;
+        continue;
+      }
+
+      const pair = /^([!#$%&'*+.^_`|~0-9A-Za-z-]+)=/.exec(value.slice(position));
+      if (pair === null) return [];
+
+      position += pair[0].length;
+
+      let parameterValue: string;
+
+      if (value[position] === '"') {
+        const quoted = /^"((?:[^"\\]|\\.)*)"/.exec(value.slice(position));
+        if (quoted === null) return [];
+
+        parameterValue = quoted[1].replace(/\\(.)/g, '$1');
+        position += quoted[0].length;
+      } else {
+        const token = /^[!#$%&'*+.^_`|~0-9A-Za-z-]*/.exec(value.slice(position));
+
+        parameterValue = token[0];
+        position += token[0].length;
+      }
+
+      const name = pair[1].toLowerCase();
+
+      // Unknown parameters are allowed, but we have no use for them. Each parameter can only appear once.
+      if (!this._parameters.includes(name)) continue;
+      if (element[name] !== undefined) return [];
+
+      element[name] = parameterValue;
+    }
+
+    elements.push(element);
+
+    return elements;
+  }
+
+  /**
+   * Gets the IP address of a node.
+   * @param {string} node The node, e.g. 192.0.2.43:47011 or [2001:db8:cafe::17].
+   * @returns {string | undefined} The IP address, or undefined if the node is unknown or obfuscated.
+   */
+  public static getNodeAddress(node: string): string | undefined {
+    if (!node) return undefined;
+
+    const ipv6 = /^\[([^\]]+)\](?::[0-9A-Za-z._-]+)?$/.exec(node);
+    if (ipv6 !== null) return net.isIPv6(ipv6[1]) ? ipv6[1] : undefined;
+
+    const ipv4 = node.split(':')[0];
+
+    return net.isIPv4(ipv4) ? ipv4 : undefined;
+  }
+
+  /**
+   * Builds the element this proxy adds for a request.
+   * @param {Request} request The request.
+   * @param {string} address The address of the node the request came in from.
+   * @returns {string} The element.
+   */
+  public static createElement(request: Request, address: string): string {
+    return [
+      `for=${this._formatValue(this._formatNode(address))}`,
+      `host=${this._formatValue(request.headers.host)}`,
+      `proto=${request.protocol}`,
+    ].join(';');
+  }
+
+  /**
+   * Appends the element this proxy adds for a request to a Forwarded header.
+   * @param {string | string[]} header The existing Forwarded header, if any.
+   * @param {Request} request The request.
+   * @returns {string} The Forwarded header to forward.
+   */
+  public static append(header: string | string[] | undefined, request: Request): string {
+    const existing = Array.isArray(header) ? header.join(', ') : header;
+
+    // The existing elements already identify the client, so ours is for the proxy that sent us the request. Without
+    // them, the client is identified the same way as in the X-Forwarded-For header.
+    if (existing) return `${existing}, ${this.createElement(request, request.realIp)}`;
+
+    return this.createElement(request, request.ip);
+  }
+
+  private static _formatNode(address: string): string {
+    if (!address) return 'unknown';
+
+    return net.isIPv6(address) ? `[${address}]` : address;
+  }
+
+  // Anything that isn't a token (e.g. the colons of an IPv6 address or a port) has to be quoted.
+  private static _formatValue(value: string): string {
+    if (value === undefined || value === null) return '""';
+
+    if (/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(value)) return value;
+
+    return `"${value.replace(/(["\\])/g, '\\$1')}"`;
+  }
+}
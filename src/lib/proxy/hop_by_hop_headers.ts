@@ -0,0 +1,66 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: hop_by_hop_headers.ts
+    Description: Strips the hop-by-hop headers (RFC 7230 section 6.1) from headers before they are forwarded.
+    Written by: Nikita Petko
+*/
+
+/**
+ * Strips the headers that only apply to a single connection, so they aren't forwarded to the next one.
+ */
+export default abstract class HopByHopHeaders {
+  // Hop-by-hop regardless of whether they are listed in the Connection header.
+  private static readonly _hopByHopHeaders = [
+    'connection',
+    'keep-alive',
+    'proxy-connection',
+    'proxy-authenticate',
+    'proxy-authorization',
+    'te',
+    'trailer',
+    'transfer-encoding',
+    'upgrade',
+  ];
+
+  /**
+   * Removes the hop-by-hop headers, including the ones named in the Connection header.
+   * @param {Record<string, unknown>} headers The headers, with lowercase names. Modified in place.
+   * @param {string[]} preserved The hop-by-hop headers to keep, e.g. upgrade for a tunnel.
+   * @returns {void} Nothing.
+   */
+  public static strip(headers: Record<string, unknown>, preserved: string[] = []): void {
+    for (const name of [...this._getConnectionOptions(headers.connection), ...this._hopByHopHeaders]) {
+      if (preserved.includes(name)) continue;
+
+      delete headers[name];
+    }
+  }
+
+  // e.g. Connection: keep-alive, Upgrade, X-Custom-Hop
+  private static _getConnectionOptions(connection: unknown): string[] {
+    if (connection === undefined || connection === null) return [];
+
+    const values = Array.isArray(connection) ? connection : [connection];
+
+    return values
+      .join(',')
+      .split(',')
+      .map((option) => option.trim().toLowerCase())
+      .filter((option) => option.length > 0);
+  }
+}
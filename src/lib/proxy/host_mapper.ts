@@ -0,0 +1,85 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: host_mapper.ts
+    Description: Maps production hostnames back to the test site the client is on, the reverse of the mapping the
+                 hostname resolution middleware does.
+    Written by: Nikita Petko
+*/
+
+import environment from '@lib/environment';
+
+/**
+ * Maps production hostnames back to the test site the client is on.
+ *
+ * e.g. a client on www.sitetest4.robloxlabs.com has auth.roblox.com mapped to auth.sitetest4.robloxlabs.com.
+ */
+export default abstract class HostMapper {
+  /**
+   * Gets the apex domain of the test site the client is on.
+   * @param {string} host The Host header of the request.
+   * @returns {string | undefined} The apex domain, or undefined if the client is not on a test site.
+   */
+  public static getTestSiteApexDomain(host: string): string | undefined {
+    if (!host) return undefined;
+
+    const match = environment.robloxTestSiteDomainRegex.exec(host);
+
+    if (match === null) return undefined;
+
+    // Group 1 is the subdomain with its trailing dot.
+    return match[0].slice(match[1]?.length ?? 0).toLowerCase();
+  }
+
+  /**
+   * Maps a production hostname to the test site the client is on.
+   * @param {string} hostname The hostname.
+   * @param {string} host The Host header of the request.
+   * @returns {string} The mapped hostname, or the hostname as is if it's not a production hostname.
+   */
+  public static toTestSiteHostname(hostname: string, host: string): string {
+    const testSiteApexDomain = this.getTestSiteApexDomain(host);
+
+    if (testSiteApexDomain === undefined) return hostname;
+
+    const productionApexDomain = environment.robloxProductionApexDomain.toLowerCase();
+    const lowerHostname = hostname.toLowerCase();
+
+    if (lowerHostname === productionApexDomain) return testSiteApexDomain;
+
+    if (lowerHostname.endsWith(`.${productionApexDomain}`)) {
+      return lowerHostname.slice(0, -productionApexDomain.length) + testSiteApexDomain;
+    }
+
+    return hostname;
+  }
+
+  /**
+   * Maps the hostname of a URL to the test site the client is on, keeping the rest of the URL as is.
+   * @param {string} url The URL, relative URLs are returned as is.
+   * @param {string} host The Host header of the request.
+   * @returns {string} The mapped URL.
+   */
+  public static toTestSiteUrl(url: string, host: string): string {
+    // Only the host of absolute (or scheme relative) http(s) and ws(s) URLs is replaced, so the scheme, userinfo,
+    // port, path, query and fragment are kept.
+    return url.replace(
+      /^(\s*(?:(?:https?|wss?):)?\/\/(?:[^/?#@]*@)?)([^/?#:[\]]+)/i,
+      (_match, prefix: string, hostname: string) => prefix + this.toTestSiteHostname(hostname, host),
+    );
+  }
+}
@@ -0,0 +1,335 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: http2_client_request.ts
+    Description: A request to a downstream over HTTP/2 that looks like a http.ClientRequest to axios, falling back to
+                 HTTP/1.1 if the downstream doesn't support HTTP/2.
+    Written by: Nikita Petko
+*/
+
+import http2SessionPool from '@lib/proxy/http2_session_pool';
+
+import * as http from 'http';
+import * as http2 from 'http2';
+import * as https from 'https';
+import * as stream from 'stream';
+
+/**
+ * A response from a downstream over HTTP/2 that looks like a http.IncomingMessage.
+ */
+class Http2IncomingMessage extends stream.PassThrough {
+  public readonly httpVersion = '2.0';
+  public readonly statusCode: number;
+  public readonly statusMessage: string;
+  public readonly headers: http.IncomingHttpHeaders = {};
+  public readonly req: Http2ClientRequest;
+
+  public constructor(headers: http2.IncomingHttpHeaders, request: Http2ClientRequest) {
+    super();
+
+    this.statusCode = Number(headers[http2.constants.HTTP2_HEADER_STATUS]);
+    this.statusMessage = http.STATUS_CODES[this.statusCode] ?? '';
+    this.req = request;
+
+    for (const name of Object.keys(headers)) {
+      if (!name.startsWith(':')) this.headers[name] = headers[name];
+    }
+  }
+}
+
+/**
+ * A request to a downstream over HTTP/2.
+ */
+export default class Http2ClientRequest extends stream.Writable {
+  // Bodies up to this size are kept around, so the request can be sent again if the downstream refuses the stream.
+  private static readonly _maxReplayableBodySize = 64 * 1024;
+
+  /**
+   * True if the request was aborted.
+   */
+  public aborted = false;
+
+  /**
+   * The response, once the downstream responded.
+   */
+  public res: http.IncomingMessage | Http2IncomingMessage = undefined;
+
+  private readonly _options: https.RequestOptions;
+  private readonly _callback: (response: http.IncomingMessage | Http2IncomingMessage) => void;
+  private readonly _connectTimeout: number;
+
+  private _target: http2.ClientHttp2Stream | http.ClientRequest = undefined;
+  private _pending: () => void = undefined;
+  private _drain: () => void = undefined;
+  private _ended = false;
+  private _replayed = false;
+  private _body: Buffer[] = [];
+  private _bodySize = 0;
+  private _timeout = 0;
+  private _timer: NodeJS.Timeout = undefined;
+
+  /**
+   * Creates a new request, it is sent once the session to the downstream is established.
+   * @param {https.RequestOptions} options The options axios creates the request with.
+   * @param {Function} callback Called with the response.
+   * @param {number} connectTimeout The max amount of time it may take to establish the session, in milliseconds.
+   */
+  public constructor(
+    options: https.RequestOptions,
+    callback: (response: http.IncomingMessage | Http2IncomingMessage) => void,
+    connectTimeout: number,
+  ) {
+    // Like a http.ClientRequest it stays around once the body is sent, so it can still be destroyed with an error.
+    super({ autoDestroy: false });
+
+    this._options = options;
+    this._callback = callback;
+    this._connectTimeout = connectTimeout;
+
+    this._connect();
+  }
+
+  /**
+   * Sets the idle timeout of the request.
+   * @param {number} timeout The timeout in milliseconds.
+   * @param {Function} callback Called when the request times out.
+   * @returns {Http2ClientRequest} The request.
+   */
+  public setTimeout(timeout: number, callback?: () => void): this {
+    this._timeout = timeout;
+
+    if (callback !== undefined) this.once('timeout', callback);
+
+    if (this._target !== undefined) {
+      this._target.setTimeout(timeout, () => this.emit('timeout'));
+    } else {
+      // Covers the time it takes to establish the session.
+      clearTimeout(this._timer);
+      this._timer = setTimeout(() => this.emit('timeout'), timeout);
+    }
+
+    return this;
+  }
+
+  /**
+   * Aborts the request.
+   * @returns {void} Nothing.
+   */
+  public abort(): void {
+    if (this.aborted) return;
+
+    this.aborted = true;
+
+    this.res?.destroy();
+    this.destroy();
+    this.emit('abort');
+  }
+
+  public _destroy(error: Error, callback: (error?: Error) => void): void {
+    clearTimeout(this._timer);
+
+    this._target?.destroy();
+
+    callback(error);
+  }
+
+  public _write(chunk: Buffer, encoding: BufferEncoding, callback: (error?: Error) => void): void {
+    if (this._target === undefined) {
+      this._pending = () => this._write(chunk, encoding, callback);
+      return;
+    }
+
+    if (this._body !== null) {
+      this._body.push(chunk);
+      this._bodySize += chunk.length;
+
+      if (this._bodySize > Http2ClientRequest._maxReplayableBodySize) this._body = null;
+    }
+
+    if (this._target.write(chunk)) {
+      callback();
+      return;
+    }
+
+    // If the stream is replayed, the new one is the one we wait for.
+    this._drain = callback;
+    this._target.once('drain', () => this._onDrain());
+  }
+
+  public _final(callback: (error?: Error) => void): void {
+    if (this._target === undefined) {
+      this._pending = () => this._final(callback);
+      return;
+    }
+
+    this._ended = true;
+    this._target.end();
+
+    callback();
+  }
+
+  private _onDrain(): void {
+    const drain = this._drain;
+
+    this._drain = undefined;
+    drain?.();
+  }
+
+  private _connect(): void {
+    const hostname = this._options.hostname;
+    const port = parseInt(this._options.port as string, 10) || 443;
+
+    http2SessionPool.getSession(hostname, port, this._connectTimeout).then(
+      (session) => {
+        if (this.aborted) return;
+
+        if (session === undefined) {
+          this._attach(this._createHttp1Request());
+          return;
+        }
+
+        this._attach(this._createHttp2Stream(session));
+      },
+      (error) => {
+        if (this.aborted) return;
+
+        this.destroy(error);
+      },
+    );
+  }
+
+  private _attach(target: http2.ClientHttp2Stream | http.ClientRequest): void {
+    clearTimeout(this._timer);
+
+    this._target = target;
+
+    if (this._timeout > 0) this.setTimeout(this._timeout);
+
+    this.emit('attach', target);
+
+    const pending = this._pending;
+
+    this._pending = undefined;
+    pending?.();
+  }
+
+  private _createHttp1Request(): http.ClientRequest {
+    const request = https.request(this._options, (response) => {
+      this.res = response;
+      this._callback(response);
+    });
+
+    request.on('socket', (socket) => this.emit('socket', socket));
+    request.on('error', (error) => this.destroy(error));
+
+    return request;
+  }
+
+  private _createHttp2Stream(session: http2.ClientHttp2Session): http2.ClientHttp2Stream {
+    const headers: http2.OutgoingHttpHeaders = {};
+
+    for (const [name, value] of Object.entries(this._options.headers)) {
+      headers[name.toLowerCase()] = value;
+    }
+
+    headers[http2.constants.HTTP2_HEADER_METHOD] = this._options.method;
+    headers[http2.constants.HTTP2_HEADER_PATH] = this._options.path;
+    headers[http2.constants.HTTP2_HEADER_SCHEME] = 'https';
+    headers[http2.constants.HTTP2_HEADER_AUTHORITY] = headers.host ?? `${this._options.hostname}:${this._options.port}`;
+
+    // The authority replaces it.
+    delete headers.host;
+
+    if (this._options.auth) {
+      headers.authorization = `Basic ${Buffer.from(this._options.auth).toString('base64')}`;
+    }
+
+    const downstream = session.request(headers);
+
+    downstream.once('response', (responseHeaders) => {
+      const response = new Http2IncomingMessage(responseHeaders, this);
+
+      this.res = response;
+
+      downstream.pipe(response);
+      downstream.on('aborted', () =>
+        response.destroy(Object.assign(new Error('The downstream aborted the response.'), { code: 'ECONNRESET' })),
+      );
+      downstream.on('error', (error) => response.destroy(error));
+
+      // E.g. a retried request discards the response.
+      response.once('close', () => {
+        if (!downstream.closed) downstream.close(http2.constants.NGHTTP2_CANCEL);
+      });
+
+      this._callback(response);
+    });
+
+    downstream.on('error', (error) => {
+      if (this.res !== undefined || this.aborted) return;
+
+      // A refused stream was never processed by the downstream, so it is safe to send it again, even if it isn't
+      // idempotent. Downstreams refuse streams after they sent a GOAWAY frame.
+      if (downstream.rstCode === http2.constants.NGHTTP2_REFUSED_STREAM && this._body !== null && !this._replayed) {
+        this._replay();
+        return;
+      }
+
+      this.destroy(error);
+    });
+
+    downstream.once('close', () => {
+      if (this.res !== undefined || this.aborted || downstream.rstCode === http2.constants.NGHTTP2_REFUSED_STREAM) {
+        return;
+      }
+
+      if (!this.destroyed) {
+        this.destroy(
+          Object.assign(new Error('The downstream closed the stream without a response.'), { code: 'ECONNRESET' }),
+        );
+      }
+    });
+
+    return downstream;
+  }
+
+  private _replay(): void {
+    this._replayed = true;
+    this._target = undefined;
+
+    const pending = this._pending;
+
+    this._pending = () => {
+      for (const chunk of this._body) this._target.write(chunk);
+
+      if (this._ended) this._target.end();
+
+      // The write that was waiting for the old stream to drain.
+      if (this._drain !== undefined) {
+        if (this._target.writableNeedDrain) {
+          this._target.once('drain', () => this._onDrain());
+        } else {
+          this._onDrain();
+        }
+      }
+
+      pending?.();
+    };
+
+    this._connect();
+  }
+}
@@ -0,0 +1,194 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: http2_session_pool.ts
+    Description: Manages HTTP/2 sessions to downstreams, so requests to the same downstream are multiplexed over a
+                 single connection.
+    Written by: Nikita Petko
+*/
+
+import logger from '@lib/logger';
+import environment from '@lib/environment';
+import trustStore from '@lib/proxy/trust_store';
+import clientCertificateRulesReader from '@lib/proxy/client_certificate_rules_reader';
+
+import * as net from 'net';
+import * as tls from 'tls';
+import * as http2 from 'http2';
+
+const http2SessionPoolLogger = new logger(
+  'http2-session-pool',
+  environment.logLevel,
+  environment.logToFileSystem,
+  environment.logToConsole,
+  environment.loggerCutPrefix,
+);
+
+/**
+ * Manages HTTP/2 sessions to downstreams.
+ *
+ * There is at most one session per downstream hostname and port, every request to it is multiplexed over that
+ * session until the downstream sends a GOAWAY frame or the session is idle for too long.
+ */
+export default abstract class Http2SessionPool {
+  private static _sessions = new Map<string, Promise<http2.ClientHttp2Session | undefined>>();
+  private static _tlsSessions = new Map<string, Buffer>();
+  private static _http1Downstreams = new Set<string>();
+
+  /**
+   * Determines if the downstream is known to not support HTTP/2.
+   * @param {string} hostname The hostname of the downstream.
+   * @param {number} port The port of the downstream.
+   * @returns {boolean} True if the downstream negotiated HTTP/1.1 before.
+   */
+  public static isHttp1Downstream(hostname: string, port: number): boolean {
+    return this._http1Downstreams.has(`${hostname}:${port}`);
+  }
+
+  /**
+   * Gets the session for the specified downstream, connecting to it if there is none yet.
+   * @param {string} hostname The hostname of the downstream.
+   * @param {number} port The port of the downstream.
+   * @param {number} connectTimeout The max amount of time it may take to connect to the downstream, in milliseconds.
+   * @returns {Promise<http2.ClientHttp2Session | undefined>} The session, or undefined if the downstream doesn't
+   * support HTTP/2.
+   */
+  public static getSession(
+    hostname: string,
+    port: number,
+    connectTimeout: number,
+  ): Promise<http2.ClientHttp2Session | undefined> {
+    const key = `${hostname}:${port}`;
+
+    if (this._http1Downstreams.has(key)) return Promise.resolve(undefined);
+
+    let session = this._sessions.get(key);
+
+    if (session === undefined) {
+      session = this._connect(key, hostname, port, connectTimeout);
+
+      // Concurrent requests wait for the same connection rather than each opening their own.
+      this._sessions.set(key, session);
+
+      session.then(
+        (established) => {
+          if (established === undefined) this._remove(key, session);
+        },
+        () => this._remove(key, session),
+      );
+    }
+
+    return session;
+  }
+
+  private static _remove(key: string, session: Promise<http2.ClientHttp2Session | undefined>): void {
+    // A newer session may have replaced this one already.
+    if (this._sessions.get(key) === session) this._sessions.delete(key);
+  }
+
+  private static _connect(
+    key: string,
+    hostname: string,
+    port: number,
+    connectTimeout: number,
+  ): Promise<http2.ClientHttp2Session | undefined> {
+    return new Promise((resolve, reject) => {
+      const socket = tls.connect({
+        host: hostname,
+        port,
+        servername: net.isIP(hostname) ? undefined : hostname,
+        session: this._tlsSessions.get(key),
+
+        // Downstreams that don't support HTTP/2 will pick HTTP/1.1, and we fall back to the agent pool.
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        ALPNProtocols: ['h2', 'http/1.1'],
+
+        ...trustStore.getTlsOptions(hostname),
+        ...clientCertificateRulesReader.getClientCertificate(hostname),
+      });
+
+      socket.setTimeout(connectTimeout, () =>
+        socket.destroy(Object.assign(new Error(`Connection to '${key}' timed out.`), { code: 'ETIMEDOUT' })),
+      );
+
+      socket.on('session', (tlsSession: Buffer) => this._tlsSessions.set(key, tlsSession));
+      socket.once('error', reject);
+      socket.once('secureConnect', () => {
+        socket.removeListener('error', reject);
+        socket.setTimeout(0);
+
+        if (socket.alpnProtocol !== 'h2') {
+          http2SessionPoolLogger.debug(
+            'Downstream \'%s\' negotiated \'%s\', falling back to HTTP/1.1.',
+            key,
+            socket.alpnProtocol || 'nothing',
+          );
+
+          this._http1Downstreams.add(key);
+
+          socket.destroy();
+          resolve(undefined);
+          return;
+        }
+
+        resolve(this._createSession(key, hostname, port, socket));
+      });
+    });
+  }
+
+  private static _createSession(
+    key: string,
+    hostname: string,
+    port: number,
+    socket: tls.TLSSocket,
+  ): http2.ClientHttp2Session {
+    const session = http2.connect(`https://${hostname}:${port}`, { createConnection: () => socket });
+    const pooled = this._sessions.get(key);
+
+    http2SessionPoolLogger.debug('Created HTTP/2 session for downstream \'%s\'.', key);
+
+    // New requests have to go through a new session, the ones in flight are left to finish on this one.
+    session.once('goaway', (errorCode: number, lastStreamID: number) => {
+      http2SessionPoolLogger.debug(
+        'Downstream \'%s\' sent GOAWAY with error code %d and last stream ID %d.',
+        key,
+        errorCode,
+        lastStreamID,
+      );
+
+      this._remove(key, pooled);
+    });
+    session.once('close', () => this._remove(key, pooled));
+    session.on('error', (error: Error) => {
+      http2SessionPoolLogger.warning('HTTP/2 session for downstream \'%s\' errored: %s', key, error.message);
+
+      this._remove(key, pooled);
+    });
+
+    session.setTimeout(environment.upstreamHttp2SessionIdleTimeout, () => {
+      http2SessionPoolLogger.debug('Closing idle HTTP/2 session for downstream \'%s\'.', key);
+
+      this._remove(key, pooled);
+      session.close();
+    });
+
+    // Don't keep the process alive just for idle sessions.
+    session.unref();
+
+    return session;
+  }
+}
@@ -0,0 +1,96 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: http2_transport.ts
+    Description: An axios transport that sends requests to downstreams over HTTP/2 when they support it.
+    Written by: Nikita Petko
+*/
+
+import environment from '@lib/environment';
+import egressProxy from '@lib/proxy/egress_proxy';
+import Http2ClientRequest from '@lib/proxy/http2_client_request';
+
+import * as http from 'http';
+import * as https from 'https';
+import { AxiosRequestConfig } from 'axios';
+
+/**
+ * An axios transport that sends requests to downstreams over HTTP/2.
+ *
+ * The protocol is negotiated with ALPN, downstreams that don't support HTTP/2 are sent requests over HTTP/1.1 through
+ * the agent pool instead.
+ */
+export default abstract class Http2Transport {
+  /**
+   * Determines if requests to the downstream may be sent over HTTP/2.
+   * @param {string} scheme The scheme of the downstream, either http or https.
+   * @param {string} hostname The hostname of the downstream.
+   * @param {string} address The address the hostname resolved to.
+   * @returns {boolean} True if requests to the downstream may be sent over HTTP/2.
+   */
+  public static isEnabled(scheme: string, hostname: string, address: string): boolean {
+    if (!environment.enableUpstreamHttp2) return false;
+
+    // Without TLS there is no ALPN to negotiate it with.
+    if (scheme !== 'https') return false;
+
+    // Sessions are opened directly, so these go through the agent pool instead.
+    if (egressProxy.getProxy(hostname, address) !== undefined) return false;
+
+    return !environment.upstreamHttp2DisabledHostnames.includes(hostname);
+  }
+
+  /**
+   * Makes axios send the request over HTTP/2 if the downstream supports it.
+   * @param {AxiosRequestConfig} configuration The axios configuration, the agents have to be set already.
+   * @param {string} scheme The scheme of the downstream, either http or https.
+   * @param {string} hostname The hostname of the downstream.
+   * @param {string} address The address the hostname resolved to.
+   * @param {number} connectTimeout The max amount of time it may take to establish the session, in milliseconds.
+   * @returns {void} Nothing.
+   */
+  public static configure(
+    configuration: AxiosRequestConfig,
+    scheme: string,
+    hostname: string,
+    address: string,
+    connectTimeout: number,
+  ): void {
+    if (!this.isEnabled(scheme, hostname, address)) return;
+
+    // The typings don't have it, but the http adapter creates the request with it instead of the https module.
+    (configuration as AxiosRequestConfig & { transport: unknown }).transport = {
+      request: (options: https.RequestOptions, callback: (response: http.IncomingMessage) => void) =>
+        this.request(options, callback, connectTimeout),
+    };
+  }
+
+  /**
+   * Creates a request, called by the axios http adapter.
+   * @param {https.RequestOptions} options The options of the request.
+   * @param {Function} callback Called with the response.
+   * @param {number} connectTimeout The max amount of time it may take to establish the session, in milliseconds.
+   * @returns {Http2ClientRequest} The request.
+   */
+  public static request(
+    options: https.RequestOptions,
+    callback: (response: http.IncomingMessage) => void,
+    connectTimeout: number,
+  ): Http2ClientRequest {
+    return new Http2ClientRequest(options, callback, connectTimeout);
+  }
+}
@@ -0,0 +1,175 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: request_body_rules_reader.ts
+    Description: This will read the request body rules that determine how request bodies are sent to the downstream.
+    Written by: Nikita Petko
+*/
+
+import environment from '@lib/environment';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { Request } from 'express';
+
+interface RequestBodyRule {
+  //////////////////////////////////////////////////////////////////////////////
+  // Resolution section.
+  //
+  // This section is used to determine what conditions are met to allow the
+  // this configuration to be used.
+  //////////////////////////////////////////////////////////////////////////////
+
+  /**
+   * A regexp that matches the request url.
+   *
+   * Defaults to `/.+/`.
+   */
+  routeTemplate: RegExp | string;
+
+  /**
+   * A string for the hosts that are matching this result.
+   *
+   * @remarks If this is not specified, it will assume every host is allowed.
+   */
+  hostname: string;
+
+  /**
+   * A string for the methods that are matching this result.
+   *
+   * @remarks If this is not specified, it will assume every method is allowed.
+   */
+  method: string;
+
+  /////////////////////////////////////////////////////////////////////////////
+  // Body section.
+  //
+  // This section is used to determine how the body will be handled.
+  /////////////////////////////////////////////////////////////////////////////
+
+  /**
+   * The max size of the request body in bytes. A request with a larger body
+   * will be responded to with a 413.
+   *
+   * Defaults to the REQUEST_BODY_MAX_SIZE environment variable.
+   * @remarks A value of 0 or less means there is no limit.
+   */
+  maxBodySize: number;
+
+  /**
+   * A boolean to determine if the body should be buffered into memory before
+   * it's sent to the downstream, rather than being streamed.
+   *
+   * Defaults to false.
+   */
+  bufferBody: boolean;
+}
+
+export default abstract class RequestBodyRulesReader {
+  private static _initialized = false;
+
+  private static _requestBodyRules: RequestBodyRule[] = [];
+
+  private static _removeRule(rule: RequestBodyRule) {
+    this._requestBodyRules = this._requestBodyRules.filter((r) => r !== rule);
+  }
+
+  /**
+   * Initialize the request body rules.
+   * @returns {void} Nothing.
+   */
+  private static _initialize(): void {
+    if (this._initialized && !environment.requestBodyRulesReloadOnRequest) return;
+
+    this._initialized = true;
+
+    const rulesFile = path.join(environment.requestBodyRulesBaseDirectory, environment.requestBodyRulesFileName);
+
+    if (!fs.existsSync(rulesFile)) return;
+
+    const fileExtension = path.extname(rulesFile);
+
+    switch (fileExtension) {
+      case '.json':
+        this._requestBodyRules = JSON.parse(fs.readFileSync(rulesFile, 'utf8')) ?? [];
+        break;
+      case '.yaml':
+      case '.yml':
+        this._requestBodyRules = (yaml.load(fs.readFileSync(rulesFile, 'utf8')) as RequestBodyRule[]) ?? [];
+        break;
+      default:
+        throw new Error(`Unsupported file extension: ${fileExtension}`);
+    }
+
+    // Validate the rules.
+    for (const rule of [...this._requestBodyRules]) {
+      if (!rule.routeTemplate) {
+        rule.routeTemplate = /(.+)?/;
+      }
+      if (typeof rule.routeTemplate === 'string') {
+        rule.routeTemplate = new RegExp(rule.routeTemplate);
+      }
+
+      if (!rule.hostname) rule.hostname = '*';
+      if (typeof rule.hostname !== 'string') {
+        this._removeRule(rule);
+        continue;
+      }
+
+      if (!rule.method) rule.method = '*';
+      if (typeof rule.method !== 'string') {
+        this._removeRule(rule);
+        continue;
+      }
+
+      if (rule.maxBodySize === undefined || rule.maxBodySize === null) rule.maxBodySize = undefined;
+      else if (typeof rule.maxBodySize !== 'number' || isNaN(rule.maxBodySize)) {
+        this._removeRule(rule);
+        continue;
+      }
+
+      if (typeof rule.bufferBody !== 'boolean') rule.bufferBody = false;
+
+      rule.method = rule.method.toLowerCase();
+    }
+  }
+
+  /**
+   * Get the request body rule for a request.
+   * @param {Request} request The request to get the rule for.
+   * @returns {RequestBodyRule | undefined} The request body rule for the request.
+   */
+  public static getRule(request: Request): RequestBodyRule | undefined {
+    this._initialize();
+
+    const urlWithoutQueryString = request.originalUrl.replace(/\?.*/, '').replace(/\/$/, '');
+
+    return this._requestBodyRules.find((r) => {
+      // routeTemplate is a regexp.
+      const routeTemplate = r.routeTemplate as RegExp;
+
+      if (!routeTemplate.test(urlWithoutQueryString)) return false;
+
+      if (r.hostname !== '*' && r.hostname !== request.hostname) return false;
+
+      if (r.method !== '*' && r.method !== request.method.toLowerCase()) return false;
+
+      return true;
+    });
+  }
+}
@@ -0,0 +1,312 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: response_differ.ts
+    Description: Compares the responses of two downstreams and writes the differences to a JSONL report.
+    Written by: Nikita Petko
+*/
+
+import '@lib/extensions/express/request';
+
+import logger from '@lib/logger';
+import environment from '@lib/environment';
+import ComparedResponse from '@lib/proxy/compared_response';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import * as crypto from 'crypto';
+import { Request } from 'express';
+
+const responseDifferLogger = new logger(
+  'response-differ',
+  environment.logLevel,
+  environment.logToFileSystem,
+  environment.logToConsole,
+  environment.loggerCutPrefix,
+);
+
+interface Difference {
+  /**
+   * The path of the value that differs, e.g. `status`, `headers.content-type` or `body.data.0.name`.
+   */
+  path: string;
+
+  /**
+   * Whether the value was only in the comparison response (added), only in the primary response (removed), or in
+   * both but with a different value (changed).
+   */
+  kind: 'added' | 'removed' | 'changed';
+
+  /**
+   * The value in the primary response.
+   */
+  primary?: unknown;
+
+  /**
+   * The value in the comparison response.
+   */
+  comparison?: unknown;
+}
+
+/**
+ * Compares the responses of two downstreams, e.g. production and a test environment.
+ *
+ * The status, the selected headers and the body are compared, JSON bodies value by value so that the paths that
+ * are expected to differ (timestamps, IDs) can be ignored. Every comparison is appended as a line to a JSONL report.
+ */
+export default abstract class ResponseDiffer {
+  private static _reportStream: fs.WriteStream = undefined;
+
+  /**
+   * Compare two responses to a request and write the report.
+   * @param {Request} request The request the responses are for.
+   * @param {string} primaryHostname The hostname of the primary downstream.
+   * @param {ComparedResponse} primary The response of the primary downstream, which the client got.
+   * @param {string} comparisonHostname The hostname of the comparison downstream.
+   * @param {ComparedResponse} comparison The response of the comparison downstream.
+   * @param {string[]} headers The names of the headers to compare.
+   * @param {string[]} ignorePaths The paths in JSON bodies to ignore, separated by dots, `*` matches any key or index.
+   * @returns {void} Nothing.
+   */
+  public static report(
+    request: Request,
+    primaryHostname: string,
+    primary: ComparedResponse,
+    comparisonHostname: string,
+    comparison: ComparedResponse,
+    headers: string[],
+    ignorePaths: string[],
+  ): void {
+    const differences: Difference[] = [];
+
+    if (primary.status !== comparison.status) {
+      differences.push({ path: 'status', kind: 'changed', primary: primary.status, comparison: comparison.status });
+    }
+
+    if (primary.headers !== undefined && comparison.headers !== undefined) {
+      for (const header of headers) {
+        const primaryValue = this._getHeader(primary.headers, header);
+        const comparisonValue = this._getHeader(comparison.headers, header);
+
+        if (primaryValue === comparisonValue) continue;
+
+        differences.push({
+          path: `headers.${header}`,
+          kind: primaryValue === undefined ? 'added' : comparisonValue === undefined ? 'removed' : 'changed',
+          primary: primaryValue,
+          comparison: comparisonValue,
+        });
+      }
+    }
+
+    const primaryBody = this._decodeBody(primary);
+    const comparisonBody = this._decodeBody(comparison);
+    const bodyCompared = primaryBody !== undefined && comparisonBody !== undefined;
+
+    if (bodyCompared) {
+      this._diffBodies(
+        primary,
+        primaryBody,
+        comparison,
+        comparisonBody,
+        ignorePaths.map((ignorePath) => ignorePath.split('.')),
+        differences,
+      );
+    }
+
+    this._write({
+      time: new Date().toISOString(),
+      requestId: request.requestId,
+      method: request.method,
+      url: request.originalUrl,
+      primary: { hostname: primaryHostname, status: primary.status, error: primary.error, latency: primary.latency },
+      comparison: {
+        hostname: comparisonHostname,
+        status: comparison.status,
+        error: comparison.error,
+        latency: comparison.latency,
+      },
+      bodyCompared,
+      bodySkipped: bodyCompared
+        ? undefined
+        : this._getBodySkippedReason('primary', primary) ?? this._getBodySkippedReason('comparison', comparison),
+
+      // Responses whose bodies weren't compared can't be said to be equal.
+      equal: bodyCompared && differences.length === 0 && primary.error === undefined && comparison.error === undefined,
+      differences,
+    });
+  }
+
+  private static _getBodySkippedReason(side: string, response: ComparedResponse): string | undefined {
+    if (response.body !== undefined) return undefined;
+
+    if (response.error !== undefined) return `the ${side} response failed`;
+    if (response.headers === undefined) return `the ${side} response was not captured`;
+
+    return `the ${side} body is larger than ${environment.responseDiffMaxBodySize} bytes`;
+  }
+
+  private static _getHeader(headers: { [key: string]: string | string[] }, name: string): string | undefined {
+    const value = headers[name];
+
+    return Array.isArray(value) ? value.join(', ') : value;
+  }
+
+  // Bodies are compared decoded, so a downstream that compresses differently doesn't count as a difference.
+  private static _decodeBody(response: ComparedResponse): Buffer | undefined {
+    if (response.body === undefined) return undefined;
+
+    const encoding = (this._getHeader(response.headers, 'content-encoding') ?? 'identity').trim().toLowerCase();
+
+    try {
+      switch (encoding) {
+        case 'gzip':
+        case 'x-gzip':
+          return zlib.gunzipSync(response.body);
+        case 'deflate':
+          return zlib.inflateSync(response.body);
+        case 'br':
+          return zlib.brotliDecompressSync(response.body);
+        default:
+          return response.body;
+      }
+    } catch (error) {
+      return response.body;
+    }
+  }
+
+  private static _diffBodies(
+    primary: ComparedResponse,
+    primaryBody: Buffer,
+    comparison: ComparedResponse,
+    comparisonBody: Buffer,
+    ignorePaths: string[][],
+    differences: Difference[],
+  ): void {
+    if (this._isJson(primary) && this._isJson(comparison)) {
+      try {
+        const primaryJson = JSON.parse(primaryBody.toString('utf8'));
+        const comparisonJson = JSON.parse(comparisonBody.toString('utf8'));
+
+        this._diffValues(primaryJson, comparisonJson, [], ignorePaths, differences);
+        return;
+      } catch (error) {
+        // Not actually JSON, so compare it byte for byte.
+      }
+    }
+
+    if (primaryBody.equals(comparisonBody)) return;
+
+    differences.push({
+      path: 'body',
+      kind: 'changed',
+      primary: this._describeBody(primaryBody),
+      comparison: this._describeBody(comparisonBody),
+    });
+  }
+
+  private static _isJson(response: ComparedResponse): boolean {
+    return /[/+]json\b/i.test(this._getHeader(response.headers, 'content-type') ?? '');
+  }
+
+  private static _describeBody(body: Buffer): { size: number; sha256: string } {
+    return { size: body.length, sha256: crypto.createHash('sha256').update(body).digest('hex') };
+  }
+
+  private static _diffValues(
+    primary: unknown,
+    comparison: unknown,
+    segments: string[],
+    ignorePaths: string[][],
+    differences: Difference[],
+  ): void {
+    if (this._isIgnored(segments, ignorePaths)) return;
+
+    if (
+      this._isContainer(primary) &&
+      this._isContainer(comparison) &&
+      Array.isArray(primary) === Array.isArray(comparison)
+    ) {
+      const keys = new Set([...Object.keys(primary), ...Object.keys(comparison)]);
+
+      for (const key of keys) {
+        const keySegments = [...segments, key];
+
+        const inPrimary = Object.prototype.hasOwnProperty.call(primary, key);
+        const inComparison = Object.prototype.hasOwnProperty.call(comparison, key);
+
+        if (inPrimary && inComparison) {
+          this._diffValues(primary[key], comparison[key], keySegments, ignorePaths, differences);
+          continue;
+        }
+
+        if (this._isIgnored(keySegments, ignorePaths)) continue;
+
+        differences.push({
+          path: ['body', ...keySegments].join('.'),
+          kind: inPrimary ? 'removed' : 'added',
+          primary: primary[key],
+          comparison: comparison[key],
+        });
+      }
+
+      return;
+    }
+
+    if (primary === comparison) return;
+
+    differences.push({ path: ['body', ...segments].join('.'), kind: 'changed', primary, comparison });
+  }
+
+  private static _isContainer(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null;
+  }
+
+  // An ignored path also ignores everything below it.
+  private static _isIgnored(segments: string[], ignorePaths: string[][]): boolean {
+    return ignorePaths.some(
+      (ignorePath) =>
+        ignorePath.length <= segments.length &&
+        ignorePath.every((segment, index) => segment === '*' || segment === segments[index]),
+    );
+  }
+
+  private static _write(report: unknown): void {
+    if (this._reportStream === undefined) {
+      const directory = environment.responseDiffReportDirectory;
+
+      try {
+        fs.mkdirSync(directory, { recursive: true });
+      } catch (error) {
+        responseDifferLogger.warning('Could not create the response diff report directory \'%s\': %s', directory, error);
+        return;
+      }
+
+      this._reportStream = fs.createWriteStream(path.join(directory, environment.responseDiffReportFileName), {
+        flags: 'a',
+      });
+      this._reportStream.on('error', (error) => {
+        responseDifferLogger.warning('Could not write the response diff report: %s', error.message);
+
+        this._reportStream = undefined;
+      });
+    }
+
+    this._reportStream.write(`${JSON.stringify(report)}\n`);
+  }
+}
@@ -0,0 +1,88 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: retry_policy.ts
+    Description: Determines if and when a failed downstream request should be retried.
+    Written by: Nikita Petko
+*/
+
+import environment from '@lib/environment';
+import retryRulesReader from '@lib/proxy/retry_rules_reader';
+
+import * as stream from 'stream';
+import { AxiosError } from 'axios';
+import { Request } from 'express';
+
+/**
+ * Determines if and when a failed downstream request should be retried.
+ *
+ * Only idempotent methods are retried, unless a retry rule for the route opts in.
+ */
+export default abstract class RetryPolicy {
+  private static readonly _idempotentMethods = ['get', 'head', 'options', 'trace', 'put', 'delete'];
+
+  /**
+   * Gets the max amount of times a request can be retried.
+   * @param {Request} request The request.
+   * @param {Buffer | stream.Readable} data The body being sent to the downstream.
+   * @returns {number} The max amount of retries, 0 if the request can't be retried.
+   */
+  public static getMaxRetries(request: Request, data: Buffer | stream.Readable): number {
+    // A streamed body is consumed by the first attempt, so it can't be sent again.
+    if (data instanceof stream.Readable) return 0;
+
+    const rule = retryRulesReader.getRule(request);
+
+    if (!rule?.retryNonIdempotent && !this._idempotentMethods.includes(request.method.toLowerCase())) return 0;
+
+    return Math.max(rule?.maxRetries ?? environment.sendAxiosRequestMaxRetries, 0);
+  }
+
+  /**
+   * Determines if the error from a downstream request is retriable.
+   * @param {AxiosError} error The error.
+   * @returns {boolean} True if the request can be retried.
+   */
+  public static isRetriableError(error: AxiosError): boolean {
+    if (error.code === undefined) return false;
+
+    return environment.sendAxiosRequestRetriableErrorCodes.includes(error.code);
+  }
+
+  /**
+   * Determines if the status of a downstream response is retriable.
+   * @param {number} status The status code of the response.
+   * @returns {boolean} True if the request can be retried.
+   */
+  public static isRetriableStatus(status: number): boolean {
+    return environment.sendAxiosRequestRetriableStatusCodes.includes(status);
+  }
+
+  /**
+   * Gets the delay before the next attempt, this is an exponential backoff with full jitter.
+   * @param {number} attempt The attempt that just failed, starting at 1.
+   * @returns {number} The delay in milliseconds.
+   */
+  public static getBackoffDelay(attempt: number): number {
+    const maxDelay = Math.min(
+      environment.sendAxiosRequestRetryMaxDelay,
+      environment.sendAxiosRequestRetryBaseDelay * 2 ** (attempt - 1),
+    );
+
+    return Math.floor(Math.random() * maxDelay);
+  }
+}
@@ -0,0 +1,175 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: retry_rules_reader.ts
+    Description: This will read the retry rules that let routes opt in to having their requests retried.
+    Written by: Nikita Petko
+*/
+
+import environment from '@lib/environment';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { Request } from 'express';
+
+interface RetryRule {
+  //////////////////////////////////////////////////////////////////////////////
+  // Resolution section.
+  //
+  // This section is used to determine what conditions are met to allow the
+  // this configuration to be used.
+  //////////////////////////////////////////////////////////////////////////////
+
+  /**
+   * A regexp that matches the request url.
+   *
+   * Defaults to `/.+/`.
+   */
+  routeTemplate: RegExp | string;
+
+  /**
+   * A string for the hosts that are matching this result.
+   *
+   * @remarks If this is not specified, it will assume every host is allowed.
+   */
+  hostname: string;
+
+  /**
+   * A string for the methods that are matching this result.
+   *
+   * @remarks If this is not specified, it will assume every method is allowed.
+   */
+  method: string;
+
+  /////////////////////////////////////////////////////////////////////////////
+  // Retry section.
+  //
+  // This section is used to determine how the request will be retried.
+  /////////////////////////////////////////////////////////////////////////////
+
+  /**
+   * A boolean to determine if requests with non-idempotent methods (e.g. POST
+   * and PATCH) can be retried.
+   *
+   * Defaults to false.
+   * @remarks The request body has to be buffered for it to be retried.
+   */
+  retryNonIdempotent: boolean;
+
+  /**
+   * The max amount of times the request will be retried.
+   *
+   * Defaults to the SEND_AXIOS_REQUEST_MAX_RETRIES environment variable.
+   * @remarks A value of 0 disables retries for the route.
+   */
+  maxRetries: number;
+}
+
+export default abstract class RetryRulesReader {
+  private static _initialized = false;
+
+  private static _retryRules: RetryRule[] = [];
+
+  private static _removeRule(rule: RetryRule) {
+    this._retryRules = this._retryRules.filter((r) => r !== rule);
+  }
+
+  /**
+   * Initialize the retry rules.
+   * @returns {void} Nothing.
+   */
+  private static _initialize(): void {
+    if (this._initialized && !environment.retryRulesReloadOnRequest) return;
+
+    this._initialized = true;
+
+    const rulesFile = path.join(environment.retryRulesBaseDirectory, environment.retryRulesFileName);
+
+    if (!fs.existsSync(rulesFile)) return;
+
+    const fileExtension = path.extname(rulesFile);
+
+    switch (fileExtension) {
+      case '.json':
+        this._retryRules = JSON.parse(fs.readFileSync(rulesFile, 'utf8')) ?? [];
+        break;
+      case '.yaml':
+      case '.yml':
+        this._retryRules = (yaml.load(fs.readFileSync(rulesFile, 'utf8')) as RetryRule[]) ?? [];
+        break;
+      default:
+        throw new Error(`Unsupported file extension: ${fileExtension}`);
+    }
+
+    // Validate the rules.
+    for (const rule of [...this._retryRules]) {
+      if (!rule.routeTemplate) {
+        rule.routeTemplate = /(.+)?/;
+      }
+      if (typeof rule.routeTemplate === 'string') {
+        rule.routeTemplate = new RegExp(rule.routeTemplate);
+      }
+
+      if (!rule.hostname) rule.hostname = '*';
+      if (typeof rule.hostname !== 'string') {
+        this._removeRule(rule);
+        continue;
+      }
+
+      if (!rule.method) rule.method = '*';
+      if (typeof rule.method !== 'string') {
+        this._removeRule(rule);
+        continue;
+      }
+
+      if (rule.maxRetries === undefined || rule.maxRetries === null) rule.maxRetries = undefined;
+      else if (typeof rule.maxRetries !== 'number' || isNaN(rule.maxRetries)) {
+        this._removeRule(rule);
+        continue;
+      }
+
+      if (typeof rule.retryNonIdempotent !== 'boolean') rule.retryNonIdempotent = false;
+
+      rule.method = rule.method.toLowerCase();
+    }
+  }
+
+  /**
+   * Get the retry rule for a request.
+   * @param {Request} request The request to get the rule for.
+   * @returns {RetryRule | undefined} The retry rule for the request.
+   */
+  public static getRule(request: Request): RetryRule | undefined {
+    this._initialize();
+
+    const urlWithoutQueryString = request.originalUrl.replace(/\?.*/, '').replace(/\/$/, '');
+
+    return this._retryRules.find((r) => {
+      // routeTemplate is a regexp.
+      const routeTemplate = r.routeTemplate as RegExp;
+
+      if (!routeTemplate.test(urlWithoutQueryString)) return false;
+
+      if (r.hostname !== '*' && r.hostname !== request.hostname) return false;
+
+      if (r.method !== '*' && r.method !== request.method.toLowerCase()) return false;
+
+      return true;
+    });
+  }
+}
@@ -0,0 +1,168 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: set_cookie_rewriter.ts
+    Description: Rewrites the Set-Cookie headers of downstream responses, so the cookies are valid for the test site
+                 the client is on instead of production.
+    Written by: Nikita Petko
+*/
+
+import environment from '@lib/environment';
+import hostMapper from '@lib/proxy/host_mapper';
+
+import { Request } from 'express';
+
+/**
+ * An attribute of a cookie, e.g. Domain or HttpOnly.
+ */
+interface CookieAttribute {
+  /**
+   * The name of the attribute, as it was sent.
+   */
+  name: string;
+
+  /**
+   * The value of the attribute, or undefined if it's a flag.
+   */
+  value: string | undefined;
+
+  // eslint-disable-next-line semi
+}
+
+/**
+ * A cookie parsed from a Set-Cookie header.
+ */
+interface SetCookie {
+  nameValuePair: string;
+  attributes: CookieAttribute[];
+
+  // eslint-disable-next-line semi
+}
+
+/**
+ * Rewrites the Set-Cookie headers of downstream responses.
+ *
+ * Only the attributes that depend on the host the client is on are changed, everything else is kept as it was sent.
+ */
+export default abstract class SetCookieRewriter {
+  /**
+   * Rewrites the Set-Cookie headers of a downstream response.
+   * @param {string | string[]} header The Set-Cookie headers, one per cookie.
+   * @param {Request} request The request the response is for.
+   * @returns {string[]} The rewritten Set-Cookie headers.
+   */
+  public static rewrite(header: string | string[], request: Request): string[] {
+    const headers = Array.isArray(header) ? header : [header];
+
+    return headers.map((value) => {
+      const cookie = this._parse(value);
+
+      if (environment.setCookieRewriteDomain) {
+        this._rewriteDomain(cookie, request.headers.host);
+      }
+
+      if (environment.setCookiePathPrefix) {
+        this._rewritePath(cookie, environment.setCookiePathPrefix);
+      }
+
+      // The browser would drop a secure cookie that's sent over http.
+      if (environment.setCookieDowngradeSecure && request.protocol === 'http') {
+        this._downgradeSecure(cookie);
+      }
+
+      return this._serialize(cookie);
+    });
+  }
+
+  // Follows the parsing algorithm of RFC 6265 section 5.2, but keeps the attributes as they were sent.
+  private static _parse(header: string): SetCookie {
+    const [nameValuePair, ...unparsedAttributes] = header.split(';');
+
+    const attributes: CookieAttribute[] = [];
+
+    for (const unparsedAttribute of unparsedAttributes) {
+      if (!unparsedAttribute.trim()) continue;
+
+      const separatorIndex = unparsedAttribute.indexOf('=');
+
+      if (separatorIndex === -1) {
+        attributes.push({ name: unparsedAttribute.trim(), value: undefined });
+        continue;
+      }
+
+      attributes.push({
+        name: unparsedAttribute.substring(0, separatorIndex).trim(),
+        value: unparsedAttribute.substring(separatorIndex + 1).trim(),
+      });
+    }
+
+    return { nameValuePair: nameValuePair.trim(), attributes };
+  }
+
+  private static _serialize(cookie: SetCookie): string {
+    const attributes = cookie.attributes.map((attribute) =>
+      attribute.value === undefined ? attribute.name : `${attribute.name}=${attribute.value}`,
+    );
+
+    return [cookie.nameValuePair, ...attributes].join('; ');
+  }
+
+  private static _getAttribute(cookie: SetCookie, name: string): CookieAttribute | undefined {
+    return cookie.attributes.find((attribute) => attribute.name.toLowerCase() === name);
+  }
+
+  private static _removeAttribute(cookie: SetCookie, name: string): void {
+    cookie.attributes = cookie.attributes.filter((attribute) => attribute.name.toLowerCase() !== name);
+  }
+
+  private static _rewriteDomain(cookie: SetCookie, host: string): void {
+    const domain = this._getAttribute(cookie, 'domain');
+
+    // A host-only cookie is already valid for the test site.
+    if (domain === undefined || !domain.value) return;
+
+    // The leading dot is ignored by browsers, but it's kept as the downstream sent it.
+    const leadingDot = domain.value.startsWith('.') ? '.' : '';
+
+    domain.value = leadingDot + hostMapper.toTestSiteHostname(domain.value.slice(leadingDot.length), host);
+  }
+
+  private static _rewritePath(cookie: SetCookie, pathPrefix: string): void {
+    const path = this._getAttribute(cookie, 'path');
+
+    const prefix = pathPrefix.replace(/\/$/, '');
+
+    if (path === undefined || !path.value?.startsWith('/')) {
+      // Without a path, the browser would default it to the directory of the request's path.
+      this._removeAttribute(cookie, 'path');
+      cookie.attributes.push({ name: 'Path', value: prefix || '/' });
+      return;
+    }
+
+    path.value = prefix + path.value;
+  }
+
+  private static _downgradeSecure(cookie: SetCookie): void {
+    if (this._getAttribute(cookie, 'secure') === undefined) return;
+
+    this._removeAttribute(cookie, 'secure');
+
+    // SameSite=None is only allowed on secure cookies.
+    const sameSite = this._getAttribute(cookie, 'samesite');
+    if (sameSite?.value?.toLowerCase() === 'none') sameSite.value = 'Lax';
+  }
+}
@@ -0,0 +1,258 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: timeout_profile.ts
+    Description: Determines how long a downstream is waited on, and enforces it on the requests sent to it.
+    Written by: Nikita Petko
+*/
+
+import environment from '@lib/environment';
+import Http2ClientRequest from '@lib/proxy/http2_client_request';
+import timeoutProfileRulesReader from '@lib/proxy/timeout_profile_rules_reader';
+
+import * as net from 'net';
+import * as tls from 'tls';
+import * as http from 'http';
+import * as https from 'https';
+import { Request } from 'express';
+import { AxiosRequestConfig } from 'axios';
+
+interface Timeouts {
+  /**
+   * The max amount of time it may take to connect to the downstream, 0 if it's only bounded by the total timeout.
+   */
+  connect: number;
+
+  /**
+   * The max amount of time between the request being sent and the downstream starting its response, 0 if it's only
+   * bounded by the total timeout.
+   */
+  firstByte: number;
+
+  /**
+   * The max amount of time the downstream may go quiet while it sends the response body, 0 if it's disabled.
+   */
+  idle: number;
+
+  /**
+   * The max amount of time the downstream may take to send the whole response body, 0 if it's disabled.
+   */
+  body: number;
+
+  /**
+   * The max amount of time to wait for a response from the downstream, across every attempt.
+   */
+  total: number;
+}
+
+interface Transport {
+  request(
+    options: https.RequestOptions,
+    callback: (response: http.IncomingMessage) => void,
+  ): http.ClientRequest | Http2ClientRequest;
+}
+
+/**
+ * Determines how long a downstream is waited on.
+ *
+ * The timeouts are split into the connect, first byte, idle, body and total ones, so e.g. long-polling routes can wait
+ * minutes for a response, while health checks fail within seconds.
+ */
+export default abstract class TimeoutProfile {
+  private static readonly _errorReasons: Record<string, string> = {
+    /* eslint-disable @typescript-eslint/naming-convention */
+    ERR_DOWNSTREAM_CONNECT_TIMEOUT: 'the connection could not be established in time',
+    ERR_DOWNSTREAM_FIRST_BYTE_TIMEOUT: 'it did not start responding in time',
+    ERR_DOWNSTREAM_TOTAL_TIMEOUT: 'it did not respond in time',
+    ERR_DOWNSTREAM_IDLE_TIMEOUT: 'it went quiet while sending the response',
+    ERR_DOWNSTREAM_BODY_TIMEOUT: 'it did not finish sending the response in time',
+    ETIMEDOUT: 'the connection could not be established in time',
+    ECONNABORTED: 'it did not respond in time',
+    /* eslint-enable @typescript-eslint/naming-convention */
+  };
+
+  /**
+   * Gets the timeouts for a request to a downstream.
+   * @param {string} hostname The hostname of the downstream.
+   * @param {Request} request The request.
+   * @returns {Timeouts} The timeouts, in milliseconds.
+   */
+  public static getTimeouts(hostname: string, request: Request): Timeouts {
+    const rule = timeoutProfileRulesReader.getRule(hostname, request);
+
+    return {
+      connect: rule?.connectTimeout ?? environment.sendAxiosRequestConnectTimeout,
+      firstByte: rule?.firstByteTimeout ?? environment.sendAxiosRequestFirstByteTimeout,
+      // Tunnels are expected to go quiet for longer than responses, e.g. a websocket waiting on messages.
+      idle:
+        rule?.idleTimeout ??
+        (request.upgrade ? environment.upgradeTunnelIdleTimeout : environment.sendAxiosRequestIdleTimeout),
+      body: rule?.bodyTimeout ?? environment.sendAxiosRequestBodyTimeout,
+      total: rule?.totalTimeout ?? environment.sendAxiosRequestTimeout,
+    };
+  }
+
+  /**
+   * Makes axios enforce the timeouts on every attempt of the request.
+   * @param {AxiosRequestConfig} configuration The axios configuration, the transport has to be set already.
+   * @param {Timeouts} timeouts The timeouts.
+   * @param {number} deadline The time the total timeout runs out at, shared by every attempt.
+   * @returns {void} Nothing.
+   */
+  public static configure(configuration: AxiosRequestConfig, timeouts: Timeouts, deadline: number): void {
+    // The typings don't have it, but the http adapter creates the request with it instead of the http(s) module.
+    const transportConfiguration = configuration as AxiosRequestConfig & { transport: Transport };
+    const transport =
+      transportConfiguration.transport ?? (new URL(configuration.url).protocol === 'https:' ? https : http);
+
+    // The timeout of axios is a socket idle timeout, which these replace.
+    configuration.timeout = 0;
+
+    transportConfiguration.transport = {
+      request: (options, callback) => this._request(transport, options, callback, timeouts, deadline),
+    };
+  }
+
+  /**
+   * Describes why a request to a downstream timed out.
+   * @param {string} code The error code.
+   * @returns {string | undefined} The reason, or undefined if the error code isn't a timeout.
+   */
+  public static getErrorReason(code: string): string | undefined {
+    if (code === undefined || code === null) return undefined;
+
+    if (Object.prototype.hasOwnProperty.call(this._errorReasons, code)) return this._errorReasons[code];
+
+    return undefined;
+  }
+
+  private static _request(
+    transport: Transport,
+    options: https.RequestOptions,
+    callback: (response: http.IncomingMessage) => void,
+    timeouts: Timeouts,
+    deadline: number,
+  ): http.ClientRequest | Http2ClientRequest {
+    let phaseTimer: NodeJS.Timeout = undefined;
+    let response: http.IncomingMessage = undefined;
+    let connected = false;
+    let sent = false;
+
+    const timeOut = (message: string, code: string) => {
+      clearTimeout(totalTimer);
+      clearTimeout(phaseTimer);
+
+      // Once the response started, it's the body that's taking too long.
+      if (response !== undefined) response.destroy(this._createError(message, code));
+      else request.destroy(this._createError(message, code));
+    };
+
+    const totalTimer = setTimeout(
+      () => timeOut(`Timeout of ${timeouts.total}ms exceeded.`, 'ERR_DOWNSTREAM_TOTAL_TIMEOUT'),
+      Math.max(deadline - Date.now(), 1),
+    );
+
+    if (timeouts.connect > 0) {
+      phaseTimer = setTimeout(
+        () => timeOut(`Connect timeout of ${timeouts.connect}ms exceeded.`, 'ERR_DOWNSTREAM_CONNECT_TIMEOUT'),
+        timeouts.connect,
+      );
+    }
+
+    // The first byte timeout starts once the whole request was sent over the connection.
+    const onProgress = () => {
+      if (!connected || !sent) return;
+
+      clearTimeout(phaseTimer);
+
+      if (timeouts.firstByte > 0) {
+        phaseTimer = setTimeout(
+          () => timeOut(`First byte timeout of ${timeouts.firstByte}ms exceeded.`, 'ERR_DOWNSTREAM_FIRST_BYTE_TIMEOUT'),
+          timeouts.firstByte,
+        );
+      }
+    };
+
+    const onConnected = () => {
+      connected = true;
+      onProgress();
+    };
+
+    const request = transport.request(options, (downstreamResponse) => {
+      response = downstreamResponse;
+
+      // The body is sent at the speed of the client, so it's only bounded by the idle and body timeouts.
+      clearTimeout(totalTimer);
+      clearTimeout(phaseTimer);
+
+      if (timeouts.body > 0) {
+        phaseTimer = setTimeout(
+          () => timeOut(`Body timeout of ${timeouts.body}ms exceeded.`, 'ERR_DOWNSTREAM_BODY_TIMEOUT'),
+          timeouts.body,
+        );
+
+        response.once('end', () => clearTimeout(phaseTimer));
+        response.once('close', () => clearTimeout(phaseTimer));
+      }
+
+      if (timeouts.idle > 0) {
+        request.setTimeout(timeouts.idle, () =>
+          response.destroy(
+            this._createError(`Idle timeout of ${timeouts.idle}ms exceeded.`, 'ERR_DOWNSTREAM_IDLE_TIMEOUT'),
+          ),
+        );
+      }
+
+      callback(response);
+    });
+
+    if (request instanceof Http2ClientRequest) {
+      // Attached once the session is established, or once it fell back to HTTP/1.1.
+      request.once('attach', onConnected);
+    } else {
+      request.once('socket', (socket: net.Socket) => {
+        // Tunnels of egress proxies are handed over connected, but the TLS handshake over them still has to happen.
+        if (request.reusedSocket || (!(socket instanceof tls.TLSSocket) && !socket.connecting)) {
+          onConnected();
+          return;
+        }
+
+        socket.once(socket instanceof tls.TLSSocket ? 'secureConnect' : 'connect', onConnected);
+      });
+    }
+
+    request.once('finish', () => {
+      sent = true;
+      onProgress();
+    });
+
+    // Either way the timers have nothing left to time out.
+    const clearTimers = () => {
+      clearTimeout(totalTimer);
+      clearTimeout(phaseTimer);
+    };
+
+    request.once('abort', clearTimers);
+    request.once('error', clearTimers);
+
+    return request;
+  }
+
+  private static _createError(message: string, code: string): NodeJS.ErrnoException {
+    return Object.assign(new Error(message), { code });
+  }
+}
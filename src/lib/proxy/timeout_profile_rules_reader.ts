@@ -0,0 +1,195 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: timeout_profile_rules_reader.ts
+    Description: This will read the timeout profile rules that give hosts and routes their own timeouts.
+    Written by: Nikita Petko
+*/
+
+import environment from '@lib/environment';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { Request } from 'express';
+
+interface TimeoutProfileRule {
+  //////////////////////////////////////////////////////////////////////////////
+  // Resolution section.
+  //
+  // This section is used to determine what conditions are met to allow the
+  // this configuration to be used.
+  //////////////////////////////////////////////////////////////////////////////
+
+  /**
+   * A regexp that matches the downstream hostname.
+   *
+   * Defaults to `/.+/`.
+   */
+  hostnameTemplate: RegExp | string;
+
+  /**
+   * A regexp that matches the request url.
+   *
+   * Defaults to `/.+/`.
+   */
+  routeTemplate: RegExp | string;
+
+  /////////////////////////////////////////////////////////////////////////////
+  // Timeout section.
+  //
+  // This section is used to determine how long the downstream is waited on.
+  // Every timeout is in milliseconds, and falls back to the matching
+  // environment variable if it isn't specified.
+  /////////////////////////////////////////////////////////////////////////////
+
+  /**
+   * The max amount of time it may take to connect to the downstream, including the TLS handshake.
+   *
+   * Defaults to the SEND_AXIOS_REQUEST_CONNECT_TIMEOUT environment variable.
+   * @remarks A value of 0 means it's only bounded by the total timeout.
+   */
+  connectTimeout: number;
+
+  /**
+   * The max amount of time between the request being sent and the downstream starting its response.
+   *
+   * Defaults to the SEND_AXIOS_REQUEST_FIRST_BYTE_TIMEOUT environment variable.
+   * @remarks A value of 0 means it's only bounded by the total timeout.
+   */
+  firstByteTimeout: number;
+
+  /**
+   * The max amount of time the downstream may go quiet while it sends the response body, or either side of an
+   * upgrade tunnel may go quiet.
+   *
+   * Defaults to the SEND_AXIOS_REQUEST_IDLE_TIMEOUT environment variable, or UPGRADE_TUNNEL_IDLE_TIMEOUT for tunnels.
+   * @remarks A value of 0 disables it.
+   */
+  idleTimeout: number;
+
+  /**
+   * The max amount of time the downstream may take to send the whole response body.
+   *
+   * Defaults to the SEND_AXIOS_REQUEST_BODY_TIMEOUT environment variable.
+   * @remarks A value of 0 disables it, as the body is sent at the speed of the client.
+   */
+  bodyTimeout: number;
+
+  /**
+   * The max amount of time to wait for a response from the downstream, across every attempt.
+   *
+   * Defaults to the SEND_AXIOS_REQUEST_TIMEOUT environment variable.
+   * @remarks The response body is bounded by the idle and body timeouts instead, so large downloads aren't cut off.
+   */
+  totalTimeout: number;
+}
+
+export default abstract class TimeoutProfileRulesReader {
+  private static readonly _timeouts: (keyof TimeoutProfileRule)[] = [
+    'connectTimeout',
+    'firstByteTimeout',
+    'idleTimeout',
+    'bodyTimeout',
+    'totalTimeout',
+  ];
+
+  private static _initialized = false;
+
+  private static _timeoutProfileRules: TimeoutProfileRule[] = [];
+
+  private static _removeRule(rule: TimeoutProfileRule) {
+    this._timeoutProfileRules = this._timeoutProfileRules.filter((r) => r !== rule);
+  }
+
+  /**
+   * Initialize the timeout profile rules.
+   * @returns {void} Nothing.
+   */
+  private static _initialize(): void {
+    if (this._initialized) return;
+
+    this._initialized = true;
+
+    const rulesFile = path.join(environment.timeoutProfileRulesBaseDirectory, environment.timeoutProfileRulesFileName);
+
+    if (!fs.existsSync(rulesFile)) return;
+
+    const fileExtension = path.extname(rulesFile);
+
+    switch (fileExtension) {
+      case '.json':
+        this._timeoutProfileRules = JSON.parse(fs.readFileSync(rulesFile, 'utf8')) ?? [];
+        break;
+      case '.yaml':
+      case '.yml':
+        this._timeoutProfileRules = (yaml.load(fs.readFileSync(rulesFile, 'utf8')) as TimeoutProfileRule[]) ?? [];
+        break;
+      default:
+        throw new Error(`Unsupported file extension: ${fileExtension}`);
+    }
+
+    // Validate the rules.
+    for (const rule of [...this._timeoutProfileRules]) {
+      if (!rule.hostnameTemplate) {
+        rule.hostnameTemplate = /(.+)?/;
+      }
+      if (typeof rule.hostnameTemplate === 'string') {
+        rule.hostnameTemplate = new RegExp(rule.hostnameTemplate, 'i');
+      }
+
+      if (!rule.routeTemplate) {
+        rule.routeTemplate = /(.+)?/;
+      }
+      if (typeof rule.routeTemplate === 'string') {
+        rule.routeTemplate = new RegExp(rule.routeTemplate);
+      }
+
+      const invalidTimeout = this._timeouts.find((name) => {
+        const timeout = rule[name];
+
+        if (timeout === undefined || timeout === null) {
+          delete rule[name];
+          return false;
+        }
+
+        return typeof timeout !== 'number' || isNaN(timeout) || timeout < 0;
+      });
+
+      if (invalidTimeout !== undefined || rule.totalTimeout === 0) {
+        this._removeRule(rule);
+        continue;
+      }
+    }
+  }
+
+  /**
+   * Get the timeout profile rule for a request.
+   * @param {string} hostname The hostname of the downstream.
+   * @param {Request} request The request to get the rule for.
+   * @returns {TimeoutProfileRule | undefined} The timeout profile rule for the request.
+   */
+  public static getRule(hostname: string, request: Request): TimeoutProfileRule | undefined {
+    this._initialize();
+
+    const urlWithoutQueryString = request.originalUrl.replace(/\?.*/, '').replace(/\/$/, '');
+
+    return this._timeoutProfileRules.find(
+      (r) => (r.hostnameTemplate as RegExp).test(hostname) && (r.routeTemplate as RegExp).test(urlWithoutQueryString),
+    );
+  }
+}
@@ -0,0 +1,335 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: traffic_mirror.ts
+    Description: Copies requests to a shadow downstream, so its responses can be compared with the real ones.
+    Written by: Nikita Petko
+*/
+
+import '@lib/extensions/express/request';
+
+import logger from '@lib/logger';
+import environment from '@lib/environment';
+import agentPool from '@lib/proxy/agent_pool';
+import http2Transport from '@lib/proxy/http2_transport';
+import timeoutProfile from '@lib/proxy/timeout_profile';
+import responseDiffer from '@lib/proxy/response_differ';
+import ComparedResponse from '@lib/proxy/compared_response';
+import trafficMirrorRulesReader from '@lib/proxy/traffic_mirror_rules_reader';
+
+import * as stream from 'stream';
+import net from '@mfdlabs/net';
+import { Request, Response } from 'express';
+import axios, { AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios';
+
+const trafficMirrorLogger = new logger(
+  'traffic-mirror',
+  environment.logLevel,
+  environment.logToFileSystem,
+  environment.logToConsole,
+  environment.loggerCutPrefix,
+);
+
+/**
+ * Copies requests to a shadow downstream (e.g. the `sitetest2` variant of the hostname).
+ *
+ * The mirrored request is sent in the background with the same method, headers and body as the real one, its
+ * response is discarded, and its status and latency are logged next to the ones of the real response.
+ *
+ * In diff mode both responses are also captured and compared, see {@link responseDiffer}.
+ */
+export default abstract class TrafficMirror {
+  private static _inFlight = 0;
+
+  /**
+   * Determines if a request is sampled to be mirrored, this is only decided once per request.
+   * @param {string} hostname The hostname of the downstream.
+   * @param {Request} request The request.
+   * @returns {boolean} True if there is a rule for the request and it is sampled.
+   */
+  public static isSampled(hostname: string, request: Request): boolean {
+    let sampled = request.context.get('trafficMirrorSampled');
+
+    if (sampled === undefined) {
+      const rule = trafficMirrorRulesReader.getRule(hostname, request);
+
+      sampled = rule !== undefined && Math.random() * 100 < rule.percentage;
+
+      request.context.set('trafficMirrorSampled', sampled);
+    }
+
+    return sampled;
+  }
+
+  /**
+   * Mirror a request to its shadow downstream, if there is a rule for it and it is sampled.
+   * @param {string} hostname The hostname of the downstream.
+   * @param {AxiosRequestConfig} configuration The configuration of the real request.
+   * @param {Request} request The request to mirror.
+   * @param {Response} response The response to the real request.
+   * @returns {void} Nothing.
+   */
+  public static mirror(
+    hostname: string,
+    configuration: AxiosRequestConfig,
+    request: Request,
+    response: Response,
+  ): void {
+    const rule = trafficMirrorRulesReader.getRule(hostname, request);
+    if (!rule) return;
+
+    if (!this.isSampled(hostname, request)) return;
+
+    // The request body middleware buffers the body of mirrored requests, as a streamed body can only be read once.
+    if (configuration.data instanceof stream.Readable) {
+      trafficMirrorLogger.warning(
+        'Not mirroring request \'%s\' to \'%s\' because its body is streamed.',
+        request.requestId,
+        hostname,
+      );
+      return;
+    }
+
+    if (this._inFlight >= environment.trafficMirrorMaxInFlight) {
+      trafficMirrorLogger.warning(
+        'Not mirroring request \'%s\' to \'%s\' because there are already %d mirrored requests in flight.',
+        request.requestId,
+        hostname,
+        this._inFlight,
+      );
+      return;
+    }
+
+    const shadowHostname = hostname.replace(rule.hostnameTemplate as RegExp, rule.target);
+    const startTime = Date.now();
+
+    let primaryResult: ComparedResponse;
+    let mirrorResult: ComparedResponse;
+
+    let primaryHeaders: { [key: string]: string | string[] };
+    let primaryBody: Buffer;
+
+    if (rule.diff) {
+      request.context.set('trafficMirrorCapture', (headers, body) => {
+        primaryHeaders = headers;
+        primaryBody = body;
+      });
+    }
+
+    const report = () => {
+      if (!primaryResult || !mirrorResult) return;
+
+      // This runs outside of the request, so nothing else would catch it.
+      if (rule.diff) {
+        try {
+          responseDiffer.report(
+            request,
+            hostname,
+            primaryResult,
+            shadowHostname,
+            mirrorResult,
+            rule.diffHeaders,
+            rule.diffIgnorePaths,
+          );
+        } catch (error) {
+          trafficMirrorLogger.error(
+            'Could not compare the responses to request \'%s\': %s',
+            request.requestId,
+            (error as Error).stack ?? error,
+          );
+        }
+      }
+
+      trafficMirrorLogger.log(
+        'Request \'%s\' %s \'%s\': primary \'%s\' %s in %dms, mirror \'%s\' %s in %dms.',
+        request.requestId,
+        request.method,
+        request.originalUrl,
+        hostname,
+        primaryResult.status ?? primaryResult.error,
+        primaryResult.latency,
+        shadowHostname,
+        mirrorResult.status ?? mirrorResult.error,
+        mirrorResult.latency,
+      );
+    };
+
+    response.once('close', () => {
+      primaryResult = {
+        status: response.headersSent ? response.statusCode : undefined,
+        error: response.writableFinished ? undefined : 'ERR_CLIENT_CLOSED',
+        latency: Date.now() - startTime,
+        headers: primaryHeaders,
+        body: primaryBody,
+      };
+
+      report();
+    });
+
+    this._inFlight++;
+
+    this._send(hostname, shadowHostname, configuration, rule.diff, request)
+      .then((result) => {
+        mirrorResult = result;
+
+        report();
+      })
+      .finally(() => this._inFlight--);
+  }
+
+  /**
+   * Capture the body of the downstream response while it's streamed to the client, if the request is compared
+   * with a shadow downstream.
+   * @param {AxiosResponse} axiosResponse The downstream response, before its headers are changed.
+   * @param {Request} request The request.
+   * @returns {stream.Transform | undefined} The stream to pipe the response body through, undefined if it isn't
+   * compared.
+   */
+  public static capture(axiosResponse: AxiosResponse, request: Request): stream.Transform | undefined {
+    const onCaptured = request.context.get('trafficMirrorCapture');
+    if (onCaptured === undefined) return undefined;
+
+    const headers = { ...axiosResponse.headers } as { [key: string]: string | string[] };
+    const maxBodySize = environment.responseDiffMaxBodySize;
+
+    let chunks: Buffer[] = [];
+    let size = 0;
+
+    return new stream.Transform({
+      transform: (chunk: Buffer, _encoding, callback) => {
+        if (chunks !== null) {
+          size += chunk.length;
+
+          // Too large to compare, but it still has to be streamed to the client.
+          if (size > maxBodySize) chunks = null;
+          else chunks.push(chunk);
+        }
+
+        callback(null, chunk);
+      },
+
+      // Only called when the whole body was received.
+      flush: (callback) => {
+        onCaptured(headers, chunks === null ? undefined : Buffer.concat(chunks, size));
+
+        callback();
+      },
+    });
+  }
+
+  private static async _send(
+    hostname: string,
+    shadowHostname: string,
+    configuration: AxiosRequestConfig,
+    captureBody: boolean,
+    request: Request,
+  ): Promise<ComparedResponse> {
+    const startTime = Date.now();
+
+    try {
+      const resolvedAddress = await net.resolveHostname(shadowHostname);
+      if (typeof resolvedAddress !== 'string' || resolvedAddress === '') {
+        return { error: 'ENOTFOUND', latency: Date.now() - startTime };
+      }
+
+      const url = new URL(configuration.url);
+      url.hostname = shadowHostname;
+
+      const mirrorConfiguration = {
+        ...configuration,
+
+        headers: {
+          ...configuration.headers,
+
+          host: shadowHostname,
+        },
+
+        url: url.toString(),
+
+        // The mirrored request lives on its own, it isn't aborted with the real one.
+        signal: undefined,
+        transport: undefined,
+        httpAgent: undefined,
+        httpsAgent: undefined,
+      } as AxiosRequestConfig;
+
+      if (request.protocol === 'https') {
+        mirrorConfiguration.httpsAgent = agentPool.getAgent(request.protocol, shadowHostname, resolvedAddress);
+      } else {
+        mirrorConfiguration.httpAgent = agentPool.getAgent(request.protocol, shadowHostname, resolvedAddress);
+      }
+
+      const timeouts = timeoutProfile.getTimeouts(hostname, request);
+
+      // Without a connect timeout the session is only bounded by the total one.
+      http2Transport.configure(
+        mirrorConfiguration,
+        request.protocol,
+        shadowHostname,
+        resolvedAddress,
+        timeouts.connect || timeouts.total,
+      );
+
+      timeoutProfile.configure(mirrorConfiguration, timeouts, Date.now() + timeouts.total);
+
+      const response: AxiosResponse<stream.Readable> = await axios.request(mirrorConfiguration);
+
+      const maxBodySize = environment.responseDiffMaxBodySize;
+
+      let chunks: Buffer[] = captureBody ? [] : null;
+      let size = 0;
+
+      return await new Promise<ComparedResponse>((resolve) => {
+        response.data.on('data', (chunk: Buffer) => {
+          if (chunks === null) return;
+
+          size += chunk.length;
+
+          if (size > maxBodySize) chunks = null;
+          else chunks.push(chunk);
+        });
+        response.data.once('end', () =>
+          resolve({
+            status: response.status,
+            latency: Date.now() - startTime,
+            headers: response.headers,
+            body: chunks === null ? undefined : Buffer.concat(chunks, size),
+          }),
+        );
+        response.data.once('error', (error: NodeJS.ErrnoException) =>
+          resolve({
+            status: response.status,
+            error: error.code ?? error.name,
+            latency: Date.now() - startTime,
+            headers: response.headers,
+          }),
+        );
+      });
+    } catch (error) {
+      const code = (error as AxiosError).code ?? (error as Error).name;
+
+      trafficMirrorLogger.debug(
+        'Mirrored request \'%s\' to \'%s\' failed: %s',
+        request.requestId,
+        shadowHostname,
+        (error as Error).message,
+      );
+
+      return { error: code, latency: Date.now() - startTime };
+    }
+  }
+}
@@ -0,0 +1,200 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: traffic_mirror_rules_reader.ts
+    Description: This will read the traffic mirror rules that copy requests to a shadow downstream.
+    Written by: Nikita Petko
+*/
+
+import environment from '@lib/environment';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { Request } from 'express';
+
+interface TrafficMirrorRule {
+  //////////////////////////////////////////////////////////////////////////////
+  // Resolution section.
+  //
+  // This section is used to determine what conditions are met to allow the
+  // this configuration to be used.
+  //////////////////////////////////////////////////////////////////////////////
+
+  /**
+   * A regexp that matches the downstream hostname.
+   *
+   * Defaults to `/.+/`.
+   */
+  hostnameTemplate: RegExp | string;
+
+  /**
+   * A regexp that matches the request url.
+   *
+   * Defaults to `/.+/`.
+   */
+  routeTemplate: RegExp | string;
+
+  /////////////////////////////////////////////////////////////////////////////
+  // Mirror section.
+  //
+  // This section is used to determine where requests are mirrored to.
+  /////////////////////////////////////////////////////////////////////////////
+
+  /**
+   * The hostname of the shadow downstream, the downstream hostname is replaced with it through the hostname template,
+   * so it can refer to its groups, e.g. `$1.sitetest2.robloxlabs.com`.
+   */
+  target: string;
+
+  /**
+   * The percentage of the matching requests that are mirrored.
+   *
+   * Defaults to 100.
+   */
+  percentage: number;
+
+  /////////////////////////////////////////////////////////////////////////////
+  // Diff section.
+  //
+  // This section is used to determine if and how the responses of the
+  // downstream and the shadow downstream are compared.
+  /////////////////////////////////////////////////////////////////////////////
+
+  /**
+   * Determines if the responses are compared and the differences are written to the response diff report.
+   *
+   * Defaults to false.
+   */
+  diff: boolean;
+
+  /**
+   * The names of the headers that are compared.
+   *
+   * Defaults to `['content-type']`.
+   */
+  diffHeaders: string[];
+
+  /**
+   * The paths in JSON bodies that are expected to differ, separated by dots, where `*` matches any key or index,
+   * e.g. `data.*.updated`.
+   *
+   * Defaults to `[]`.
+   */
+  diffIgnorePaths: string[];
+}
+
+export default abstract class TrafficMirrorRulesReader {
+  private static _initialized = false;
+
+  private static _trafficMirrorRules: TrafficMirrorRule[] = [];
+
+  private static _removeRule(rule: TrafficMirrorRule) {
+    this._trafficMirrorRules = this._trafficMirrorRules.filter((r) => r !== rule);
+  }
+
+  private static _isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every((item) => typeof item === 'string');
+  }
+
+  /**
+   * Initialize the traffic mirror rules.
+   * @returns {void} Nothing.
+   */
+  private static _initialize(): void {
+    if (this._initialized) return;
+
+    this._initialized = true;
+
+    const rulesFile = path.join(environment.trafficMirrorRulesBaseDirectory, environment.trafficMirrorRulesFileName);
+
+    if (!fs.existsSync(rulesFile)) return;
+
+    const fileExtension = path.extname(rulesFile);
+
+    switch (fileExtension) {
+      case '.json':
+        this._trafficMirrorRules = JSON.parse(fs.readFileSync(rulesFile, 'utf8')) ?? [];
+        break;
+      case '.yaml':
+      case '.yml':
+        this._trafficMirrorRules = (yaml.load(fs.readFileSync(rulesFile, 'utf8')) as TrafficMirrorRule[]) ?? [];
+        break;
+      default:
+        throw new Error(`Unsupported file extension: ${fileExtension}`);
+    }
+
+    // Validate the rules.
+    for (const rule of [...this._trafficMirrorRules]) {
+      if (!rule.hostnameTemplate) {
+        rule.hostnameTemplate = /(.+)?/;
+      }
+      if (typeof rule.hostnameTemplate === 'string') {
+        rule.hostnameTemplate = new RegExp(rule.hostnameTemplate, 'i');
+      }
+
+      if (!rule.routeTemplate) {
+        rule.routeTemplate = /(.+)?/;
+      }
+      if (typeof rule.routeTemplate === 'string') {
+        rule.routeTemplate = new RegExp(rule.routeTemplate);
+      }
+
+      if (typeof rule.target !== 'string' || rule.target === '') {
+        this._removeRule(rule);
+        continue;
+      }
+
+      if (rule.percentage === undefined || rule.percentage === null) rule.percentage = 100;
+      if (typeof rule.percentage !== 'number' || !(rule.percentage >= 0 && rule.percentage <= 100)) {
+        this._removeRule(rule);
+        continue;
+      }
+
+      rule.diff = rule.diff === true;
+
+      if (!rule.diffHeaders) rule.diffHeaders = ['content-type'];
+      if (!this._isStringArray(rule.diffHeaders)) {
+        this._removeRule(rule);
+        continue;
+      }
+      rule.diffHeaders = rule.diffHeaders.map((header) => header.toLowerCase());
+
+      if (!rule.diffIgnorePaths) rule.diffIgnorePaths = [];
+      if (!this._isStringArray(rule.diffIgnorePaths)) {
+        this._removeRule(rule);
+        continue;
+      }
+    }
+  }
+
+  /**
+   * Get the traffic mirror rule for a request.
+   * @param {string} hostname The hostname of the downstream.
+   * @param {Request} request The request to get the rule for.
+   * @returns {TrafficMirrorRule | undefined} The traffic mirror rule for the request.
+   */
+  public static getRule(hostname: string, request: Request): TrafficMirrorRule | undefined {
+    this._initialize();
+
+    const urlWithoutQueryString = request.originalUrl.replace(/\?.*/, '').replace(/\/$/, '');
+
+    return this._trafficMirrorRules.find(
+      (r) => (r.hostnameTemplate as RegExp).test(hostname) && (r.routeTemplate as RegExp).test(urlWithoutQueryString),
+    );
+  }
+}
@@ -0,0 +1,158 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: trust_store.ts
+    Description: Determines which certificates of downstreams are trusted, and describes why one wasn't.
+    Written by: Nikita Petko
+*/
+
+import environment from '@lib/environment';
+import pemReader from '@lib/setup/utility/pem_reader';
+import { CertificateValidationMode } from '@lib/proxy/certificate_validation_mode';
+import certificateValidationRulesReader from '@lib/proxy/certificate_validation_rules_reader';
+
+import * as tls from 'tls';
+import * as crypto from 'crypto';
+
+/**
+ * Determines which certificates of downstreams are trusted.
+ */
+export default abstract class TrustStore {
+  /**
+   * The error code used when none of the certificates in the chain match the pinned SPKI hashes.
+   */
+  public static readonly pinMismatchErrorCode = 'ERR_TLS_SPKI_PIN_MISMATCH';
+
+  private static readonly _errorReasons: Record<string, string> = {
+    /* eslint-disable @typescript-eslint/naming-convention */
+    CERT_HAS_EXPIRED: 'the certificate has expired',
+    CERT_NOT_YET_VALID: 'the certificate is not yet valid',
+    CERT_REVOKED: 'the certificate has been revoked',
+    ERR_TLS_CERT_ALTNAME_INVALID: 'the certificate does not match the hostname',
+    UNABLE_TO_VERIFY_LEAF_SIGNATURE: 'the certificate is signed by an unknown certificate authority',
+    UNABLE_TO_GET_ISSUER_CERT: 'the certificate is signed by an unknown certificate authority',
+    UNABLE_TO_GET_ISSUER_CERT_LOCALLY: 'the certificate is signed by an unknown certificate authority',
+    SELF_SIGNED_CERT_IN_CHAIN: 'the certificate is signed by an unknown certificate authority',
+    DEPTH_ZERO_SELF_SIGNED_CERT: 'the certificate is self-signed',
+    ERR_TLS_SPKI_PIN_MISMATCH: 'the certificate does not match any of the pinned public keys',
+    EPROTO: 'the TLS handshake failed',
+    /* eslint-enable @typescript-eslint/naming-convention */
+  };
+
+  private static _caBundles: string[] = undefined;
+  private static _pinCheckers = new Map<string[], tls.ConnectionOptions['checkServerIdentity']>();
+
+  /**
+   * Gets the TLS options used to validate the certificate of a downstream.
+   * @param {string} hostname The hostname of the downstream.
+   * @returns {tls.ConnectionOptions} The TLS options.
+   */
+  public static getTlsOptions(hostname: string): tls.ConnectionOptions {
+    const rule = certificateValidationRulesReader.getRule(hostname);
+    const mode =
+      rule?.mode ??
+      (environment.enableCertificateValidation ? CertificateValidationMode.Custom : CertificateValidationMode.Disabled);
+
+    switch (mode) {
+      case CertificateValidationMode.Disabled:
+        return { rejectUnauthorized: false };
+      case CertificateValidationMode.Strict:
+        return { rejectUnauthorized: true };
+      case CertificateValidationMode.Custom:
+        return { rejectUnauthorized: true, ca: this._getCertificateAuthorities() };
+      case CertificateValidationMode.Pinned:
+        return {
+          rejectUnauthorized: true,
+          ca: this._getCertificateAuthorities(),
+          checkServerIdentity: this._getPinChecker(rule.pins),
+        };
+    }
+  }
+
+  /**
+   * Describes why the certificate of a downstream wasn't trusted.
+   * @param {string} code The error code.
+   * @returns {string | undefined} The reason, or undefined if the error code isn't a TLS error.
+   */
+  public static getErrorReason(code: string): string | undefined {
+    if (code === undefined || code === null) return undefined;
+
+    if (Object.prototype.hasOwnProperty.call(this._errorReasons, code)) return this._errorReasons[code];
+
+    if (code.startsWith('ERR_SSL_') || code.startsWith('ERR_TLS_')) return 'the TLS handshake failed';
+
+    return undefined;
+  }
+
+  // Undefined falls back to the system certificate authorities.
+  private static _getCertificateAuthorities(): string[] | undefined {
+    if (this._caBundles === undefined) {
+      this._caBundles = environment.certificateValidationCaBundles.map((bundle) =>
+        pemReader.readCertificate(bundle, environment.sslBaseDirectory),
+      );
+    }
+
+    if (this._caBundles.length === 0) return undefined;
+
+    // Setting ca replaces the system certificate authorities, so they have to be included.
+    return [...tls.rootCertificates, ...this._caBundles];
+  }
+
+  // The same pins always get the same function, so the agent pool can tell whether the TLS options changed.
+  private static _getPinChecker(pins: string[]): tls.ConnectionOptions['checkServerIdentity'] {
+    let checker = this._pinCheckers.get(pins);
+
+    if (checker === undefined) {
+      checker = (hostname, certificate) => this._checkPins(hostname, certificate, pins);
+
+      this._pinCheckers.set(pins, checker);
+    }
+
+    return checker;
+  }
+
+  private static _checkPins(hostname: string, certificate: tls.PeerCertificate, pins: string[]): Error | undefined {
+    const error = tls.checkServerIdentity(hostname, certificate);
+
+    if (error !== undefined) return error;
+
+    let current = certificate as tls.DetailedPeerCertificate;
+
+    // The chain ends with the root, which is its own issuer.
+    while (current?.raw !== undefined) {
+      if (pins.includes(this._getSpkiHash(current.raw))) return undefined;
+
+      if (current.issuerCertificate === current) break;
+
+      current = current.issuerCertificate;
+    }
+
+    const mismatch = new Error(
+      `The certificate of '${hostname}' does not match any of the pinned public keys.`,
+    ) as NodeJS.ErrnoException;
+    mismatch.code = this.pinMismatchErrorCode;
+
+    return mismatch;
+  }
+
+  private static _getSpkiHash(raw: Buffer): string {
+    const pem = `-----BEGIN CERTIFICATE-----\n${raw.toString('base64')}\n-----END CERTIFICATE-----`;
+    const spki = crypto.createPublicKey(pem).export({ type: 'spki', format: 'der' });
+
+    return crypto.createHash('sha256').update(spki).digest('base64');
+  }
+}
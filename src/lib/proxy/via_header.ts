@@ -0,0 +1,68 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: via_header.ts
+    Description: Builds and inspects the Via header (RFC 7230 section 5.7.1) this proxy adds to forwarded messages.
+    Written by: Nikita Petko
+*/
+
+import webUtility from '@lib/utility/web_utility';
+
+/**
+ * Builds and inspects the Via header, which identifies this proxy with its machine ID.
+ */
+export default abstract class ViaHeader {
+  /**
+   * Appends this proxy to a Via header.
+   * @param {string | string[]} via The existing Via header, if any.
+   * @param {string} protocolVersion The HTTP version the message was received with, e.g. 1.1.
+   * @returns {string} The Via header to forward.
+   */
+  public static append(via: string | string[] | undefined, protocolVersion: string): string {
+    const entry = `${protocolVersion || '1.1'} ${webUtility.getMachineID()}`;
+    const existing = Array.isArray(via) ? via.join(', ') : via;
+
+    if (!existing) return entry;
+
+    return `${existing}, ${entry}`;
+  }
+
+  /**
+   * Determines if a message already passed through this proxy, which means it's being looped back to it.
+   * @param {string | string[]} via The Via header, if any.
+   * @returns {boolean} True if one of the entries is this proxy, false otherwise.
+   */
+  public static containsSelf(via: string | string[] | undefined): boolean {
+    if (!via) return false;
+
+    const machineId = webUtility.getMachineID().toLowerCase();
+    const value = Array.isArray(via) ? via.join(', ') : via;
+
+    // e.g. Via: 1.0 fred, 1.1 p.example.net (Apache/1.1), HTTP/2 proxy:8080
+    // Comments are removed first, as they can contain commas.
+    return value
+      .replace(/\([^)]*\)/g, '')
+      .split(',')
+      .some((entry) => {
+        const receivedBy = entry.trim().split(/\s+/)[1];
+
+        if (receivedBy === undefined) return false;
+
+        return receivedBy.toLowerCase() === machineId || receivedBy.toLowerCase().startsWith(`${machineId}:`);
+      });
+  }
+}
@@ -0,0 +1,115 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: error_code.ts
+    Description: A simple enum to represent the stable error codes of error responses.
+    Written by: Nikita Petko
+*/
+
+/**
+ * Represents the error code of an error response.
+ *
+ * These are part of the JSON error schema that clients match on, so existing ones must never be renamed.
+ *
+ * @enum {string} The error codes.
+ */
+export enum ErrorCode {
+  /**
+   * The request target or host header could not be understood.
+   */
+  InvalidRequest = 'invalid_request',
+
+  /**
+   * The address of the client is not in the allowed CIDR ranges.
+   */
+  AddressNotAllowed = 'address_not_allowed',
+
+  /**
+   * The client is a crawler.
+   */
+  CrawlerNotAllowed = 'crawler_not_allowed',
+
+  /**
+   * The downstream resolved to an address on the local area network.
+   */
+  LocalAreaNetworkAccessDenied = 'local_area_network_access_denied',
+
+  /**
+   * The downstream resolved to this server.
+   */
+  LoopbackDetected = 'loopback_detected',
+
+  /**
+   * The request already passed through this proxy.
+   */
+  ProxyLoopDetected = 'proxy_loop_detected',
+
+  /**
+   * The client tried to open a tunnel to a port that is not allowed.
+   */
+  TunnelPortNotAllowed = 'tunnel_port_not_allowed',
+
+  /**
+   * The hostname of the downstream could not be resolved.
+   */
+  HostnameNotResolved = 'hostname_not_resolved',
+
+  /**
+   * The request body is larger than allowed.
+   */
+  RequestBodyTooLarge = 'request_body_too_large',
+
+  /**
+   * The client only accepts a cached response, and there isn't one.
+   */
+  NotCached = 'not_cached',
+
+  /**
+   * The circuit of the downstream is open.
+   */
+  CircuitOpen = 'circuit_open',
+
+  /**
+   * The downstream did not respond in time.
+   */
+  DownstreamTimeout = 'downstream_timeout',
+
+  /**
+   * The downstream could not be connected to.
+   */
+  DownstreamConnectionFailed = 'downstream_connection_failed',
+
+  /**
+   * The certificate of the downstream was not trusted, or the TLS handshake failed.
+   */
+  DownstreamTlsFailed = 'downstream_tls_failed',
+
+  /**
+   * The proxy is out of resources, e.g. file descriptors.
+   */
+  ProxyOverloaded = 'proxy_overloaded',
+
+  /**
+   * A tunnel to the downstream could not be opened.
+   */
+  TunnelFailed = 'tunnel_failed',
+
+  /**
+   * Any other error.
+   */
+  InternalError = 'internal_error',
+}
@@ -0,0 +1,137 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: error_responder.ts
+    Description: This handler will be invoked when we want to respond to the client with an error, it picks the format
+                 the client asked for with its Accept header.
+    Written by: Nikita Petko
+*/
+
+import '@lib/extensions/express/request';
+import '@lib/extensions/express/response';
+
+import environment from '@lib/environment';
+import { ErrorCode } from '@lib/responders/error_code';
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import htmlEncode from 'escape-html';
+import { Request, Response } from 'express';
+
+export default class ErrorResponder {
+  // The first one is used when the client accepts anything, so browsers keep getting an error page.
+  private static readonly _contentTypes = ['text/html', 'application/json', 'text/plain'];
+
+  private static readonly _templates = new Map<string, string | undefined>();
+
+  /**
+   * Respond to the client with an error.
+   *
+   * JSON responses follow the schema `{ "error": { "code", "status", "message", "requestId", "details" } }`.
+   * @param {Request} request The request object.
+   * @param {Response} response The response object.
+   * @param {number} status The status code.
+   * @param {ErrorCode} code The error code, this is stable so clients can match on it.
+   * @param {string} message The message, it is encoded for HTML responses.
+   * @param {Record<string, unknown>=} details Extra details for JSON responses, a stack is also shown on HTML pages.
+   * @returns {void} Nothing.
+   */
+  public static invoke(
+    request: Request,
+    response: Response,
+    status: number,
+    code: ErrorCode,
+    message: string,
+    details: Record<string, unknown> = {},
+  ): void {
+    const requestId = request.requestId;
+    const title = http.STATUS_CODES[status] ?? 'Unknown';
+
+    response.status(status);
+    response.noCache();
+    response.vary('accept');
+    response.header('x-request-id', requestId);
+
+    switch (request.accepts(this._contentTypes)) {
+      case 'application/json':
+        response.contentType('application/json');
+        response.send(JSON.stringify({ error: { code, status, message, requestId, details } }));
+        return;
+      case 'text/plain':
+        response.contentType('text/plain');
+        response.send(`${status} ${title}\n${message}\nRequest ID: ${requestId}\n`);
+        return;
+      default:
+        response.contentType('text/html');
+        response.send(this._renderHtml(status, title, code, message, requestId, details));
+    }
+  }
+
+  private static _renderHtml(
+    status: number,
+    title: string,
+    code: ErrorCode,
+    message: string,
+    requestId: string,
+    details: Record<string, unknown>,
+  ): string {
+    const template = this._getTemplate(status);
+
+    if (template !== undefined) {
+      const values = { status, title, code, message, requestId };
+
+      return template.replace(/{{\s*(\w+)\s*}}/g, (match, name: string) =>
+        Object.prototype.hasOwnProperty.call(values, name) ? htmlEncode(String(values[name])) : match,
+      );
+    }
+
+    let html = `<html><body><h1>${status} ${htmlEncode(title)}</h1><p>${htmlEncode(message)}</p>`;
+
+    if (typeof details.stack === 'string') {
+      const stack = htmlEncode(details.stack)
+        .replace(/\n/g, '<br>')
+        .replace(/\t/g, '&nbsp;&nbsp;&nbsp;&nbsp;')
+        .replace(/ /g, '&nbsp;');
+
+      html += `<p><b>${stack}</b></p>`;
+    }
+
+    return `${html}</body></html>`;
+  }
+
+  // The templates are read once, a status without its own template falls back to default.html.
+  private static _getTemplate(status: number): string | undefined {
+    const directory = environment.errorTemplatesDirectory;
+
+    if (directory === null) return undefined;
+
+    for (const fileName of [`${status}.html`, 'default.html']) {
+      if (!this._templates.has(fileName)) {
+        const templateFile = path.join(directory, fileName);
+
+        this._templates.set(fileName, fs.existsSync(templateFile) ? fs.readFileSync(templateFile, 'utf8') : undefined);
+      }
+
+      const template = this._templates.get(fileName);
+
+      if (template !== undefined) return template;
+    }
+
+    return undefined;
+  }
+}
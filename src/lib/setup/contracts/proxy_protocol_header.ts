@@ -0,0 +1,48 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: proxy_protocol_header.ts
+    Description: Represents a parsed PROXY protocol header.
+    Written by: Nikita Petko
+*/
+
+/**
+ * Represents a parsed PROXY protocol header.
+ */
+export default interface ProxyProtocolHeader {
+  /**
+   * The length of the header in bytes, everything after it is the actual connection data.
+   */
+  length: number;
+
+  /**
+   * The address of the client, or undefined if the sender didn't proxy a client (e.g. a health check).
+   */
+  address?: string;
+
+  /**
+   * The port of the client.
+   */
+  port?: number;
+
+  /**
+   * The address family of the client, either IPv4 or IPv6.
+   */
+  family?: string;
+
+  // eslint-disable-next-line semi
+}
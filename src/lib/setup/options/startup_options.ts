@@ -77,6 +77,47 @@ export default interface StartupOptions {
    */
   tlsV2?: boolean;
 
+  /**
+   * Determines if HTTP Upgrade requests (such as WebSockets) should be dispatched to the app.
+   * The request will go through the app's middleware with a response bound to the raw socket.
+   *
+   * This will default to false.
+   */
+  allowUpgrades?: boolean;
+
+  /**
+   * Determines if HTTP CONNECT requests should be dispatched to the app, like upgrade requests.
+   * The request will go through the app's middleware with a response bound to the raw socket.
+   *
+   * This will default to false.
+   */
+  allowConnect?: boolean;
+
+  /**
+   * Determines if connections should start with a PROXY protocol (v1 or v2) header, which carries the address of
+   * the client when a TCP load balancer (such as HAProxy or AWS NLB) sits in front of the server.
+   * The address of the client becomes the remote address of the socket.
+   *
+   * This will default to false.
+   */
+  proxyProtocol?: boolean;
+
+  /**
+   * Determines if a connection from the specified address is expected to send a PROXY protocol header.
+   * Connections from any other address are used as is, so they can't spoof the address of the client.
+   *
+   * This will only apply if ProxyProtocol is true.
+   */
+  isProxyProtocolPeer?: (address: string) => boolean;
+
+  /**
+   * The max amount of time to wait for the PROXY protocol header, in milliseconds.
+   * This will only apply if ProxyProtocol is true.
+   *
+   * This will default to 5000.
+   */
+  proxyProtocolTimeout?: number;
+
   ////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
   // Certificate and Key Options
   ////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
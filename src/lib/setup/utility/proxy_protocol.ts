@@ -0,0 +1,155 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: proxy_protocol.ts
+    Description: A simple helper that parses PROXY protocol v1 and v2 headers, as sent by load balancers such as
+                 HAProxy or AWS NLB.
+    Written by: Nikita Petko
+*/
+
+import proxyProtocolHeader from '../contracts/proxy_protocol_header';
+
+import * as net from 'net';
+
+/**
+ * A simple helper that parses PROXY protocol v1 and v2 headers.
+ *
+ * @see https://www.haproxy.org/download/2.8/doc/proxy-protocol.txt
+ */
+export default abstract class ProxyProtocol {
+  private static readonly _v1Signature = Buffer.from('PROXY ', 'latin1');
+  private static readonly _v2Signature = Buffer.from([
+    0x0d, 0x0a, 0x0d, 0x0a, 0x00, 0x0d, 0x0a, 0x51, 0x55, 0x49, 0x54, 0x0a,
+  ]);
+
+  // A v1 header, including the CRLF, is never longer than this.
+  private static readonly _v1MaxLength = 107;
+
+  // The signature, version and command, address family and length.
+  private static readonly _v2HeaderLength = 16;
+
+  /**
+   * Parses the PROXY protocol header at the start of a connection.
+   * @param {Buffer} data The data received on the connection so far.
+   * @returns {proxyProtocolHeader | undefined} The header, or undefined if more data is needed to parse it.
+   * @throws {Error} If the data doesn't start with a valid header.
+   */
+  public static parse(data: Buffer): proxyProtocolHeader | undefined {
+    if (this._startsWith(data, this._v2Signature)) return this._parseV2(data);
+    if (this._startsWith(data, this._v1Signature)) return this._parseV1(data);
+
+    throw new Error('The connection did not start with a PROXY protocol header.');
+  }
+
+  // Also true when the data is a prefix of the signature, as the rest of it may not have been received yet.
+  private static _startsWith(data: Buffer, signature: Buffer): boolean {
+    const length = Math.min(data.length, signature.length);
+
+    return data.subarray(0, length).equals(signature.subarray(0, length));
+  }
+
+  // e.g. PROXY TCP4 192.0.2.43 198.51.100.1 56324 443\r\n
+  private static _parseV1(data: Buffer): proxyProtocolHeader | undefined {
+    const end = data.indexOf('\r\n', 0, 'latin1');
+
+    if (end === -1) {
+      if (data.length >= this._v1MaxLength) throw new Error('The PROXY protocol v1 header is too long.');
+
+      return undefined;
+    }
+
+    const length = end + 2;
+    const [, protocol, sourceAddress, , sourcePort] = data.toString('latin1', 0, end).split(' ');
+
+    // The sender couldn't tell what the client is, so the connection is used as is.
+    if (protocol === 'UNKNOWN') return { length };
+
+    const port = parseInt(sourcePort, 10);
+
+    if (!(protocol === 'TCP4' && net.isIPv4(sourceAddress)) && !(protocol === 'TCP6' && net.isIPv6(sourceAddress))) {
+      throw new Error(
+        `The PROXY protocol v1 header has an invalid protocol or address '${protocol} ${sourceAddress}'.`,
+      );
+    }
+
+    if (isNaN(port) || port < 0 || port > 65535) {
+      throw new Error(`The PROXY protocol v1 header has an invalid port '${sourcePort}'.`);
+    }
+
+    return { length, address: sourceAddress, port, family: protocol === 'TCP4' ? 'IPv4' : 'IPv6' };
+  }
+
+  private static _parseV2(data: Buffer): proxyProtocolHeader | undefined {
+    if (data.length < this._v2HeaderLength) return undefined;
+
+    const versionAndCommand = data[12];
+    const family = data[13];
+    const length = this._v2HeaderLength + data.readUInt16BE(14);
+
+    if (versionAndCommand >> 4 !== 2) throw new Error('The PROXY protocol v2 header has an unsupported version.');
+    if (data.length < length) return undefined;
+
+    const command = versionAndCommand & 0x0f;
+
+    // LOCAL, the sender made the connection itself (e.g. a health check), so the connection is used as is.
+    if (command === 0x0) return { length };
+    if (command !== 0x1) throw new Error('The PROXY protocol v2 header has an unsupported command.');
+
+    // The upper nibble is the address family, the lower is the transport protocol. Only TCP is proxied.
+    switch (family) {
+      case 0x11:
+        if (length < this._v2HeaderLength + 12) throw new Error('The PROXY protocol v2 header is truncated.');
+
+        return {
+          length,
+          address: Array.from(data.subarray(16, 20)).join('.'),
+          port: data.readUInt16BE(24),
+          family: 'IPv4',
+        };
+      case 0x21:
+        if (length < this._v2HeaderLength + 36) throw new Error('The PROXY protocol v2 header is truncated.');
+
+        return {
+          length,
+          address: this._formatIPv6(data.subarray(16, 32)),
+          port: data.readUInt16BE(48),
+          family: 'IPv6',
+        };
+      default:
+        // Unspecified, UDP or unix sockets, none of which say anything useful about the client.
+        return { length };
+    }
+  }
+
+  private static _formatIPv6(address: Buffer): string {
+    const groups: string[] = [];
+
+    for (let i = 0; i < 16; i += 2) {
+      groups.push(address.readUInt16BE(i).toString(16));
+    }
+
+    // Compress the longest run of zero groups, as node does for socket addresses.
+    const full = groups.join(':');
+    const runs = full.match(/(?:^|:)0(?::0)+(?::|$)/g);
+
+    if (runs === null) return full;
+
+    const longest = runs.reduce((a, b) => (b.length > a.length ? b : a));
+
+    return full.replace(longest, '::');
+  }
+}
@@ -0,0 +1,123 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: body_rewriter.test.ts
+    Description: Unit tests for the rewriting of hostnames in response bodies, wherever the chunks are split.
+    Written by: Nikita Petko
+*/
+
+/* eslint-disable @typescript-eslint/naming-convention */
+
+import testHelper from './test_helper';
+
+import bodyRewriter from '@lib/proxy/body_rewriter';
+
+import * as zlib from 'zlib';
+import * as assert from 'assert';
+import * as stream from 'stream';
+import { AxiosResponse } from 'axios';
+import { describe, it } from 'node:test';
+
+const createAxiosResponse = (headers: Record<string, string> = {}): AxiosResponse =>
+  ({ status: 200, headers: { 'content-type': 'text/html', ...headers } } as unknown as AxiosResponse);
+
+const rewrite = async (chunks: Buffer[], axiosResponse = createAxiosResponse()): Promise<Buffer> => {
+  const request = testHelper.createRequest({ headers: { host: 'www.sitetest4.robloxlabs.com' } });
+  const streams = bodyRewriter.createRewriteStreams(axiosResponse, request);
+
+  const output = streams.reduce<stream.Readable>(
+    (source, transform) => source.pipe(transform),
+    stream.Readable.from(chunks),
+  );
+  const rewritten: Buffer[] = [];
+
+  for await (const chunk of output) rewritten.push(chunk);
+
+  return Buffer.concat(rewritten);
+};
+
+// Every way the body can be split into two chunks.
+const splitInTwo = (body: Buffer): Buffer[][] =>
+  Array.from({ length: body.length + 1 }, (_, index) => [body.subarray(0, index), body.subarray(index)]);
+
+describe('BodyRewriter', () => {
+  it('maps production hostnames to the test site', async () => {
+    const body = Buffer.from('<a href="https://www.roblox.com/games">Roblox.com</a> <img src="//t0.rbxcdn.com">');
+
+    assert.strictEqual(
+      (await rewrite([body])).toString(),
+      '<a href="https://www.sitetest4.robloxlabs.com/games">sitetest4.robloxlabs.com</a> <img src="//t0.rbxcdn.com">',
+    );
+  });
+
+  it('leaves hostnames that only contain the production apex domain as they are', async () => {
+    const body = 'notroblox.com roblox.community my-roblox.com';
+
+    assert.strictEqual((await rewrite([Buffer.from(body)])).toString(), body);
+  });
+
+  it('rewrites the same wherever the chunks are split', async () => {
+    const body = Buffer.from('"https://www.roblox.com/" notroblox.com auth.roblox.com.');
+    const expected = '"https://www.sitetest4.robloxlabs.com/" notroblox.com auth.sitetest4.robloxlabs.com.';
+
+    for (const chunks of splitInTwo(body)) {
+      assert.strictEqual((await rewrite(chunks)).toString(), expected, `split at ${chunks[0].length}`);
+    }
+
+    const bytes = Array.from(body, (byte) => Buffer.from([byte]));
+
+    assert.strictEqual((await rewrite(bytes)).toString(), expected);
+  });
+
+  it('keeps multi-byte characters that are split between chunks', async () => {
+    const body = Buffer.from('héllo ✓ www.roblox.com ✓');
+
+    for (const chunks of splitInTwo(body)) {
+      assert.strictEqual((await rewrite(chunks)).toString(), 'héllo ✓ www.sitetest4.robloxlabs.com ✓');
+    }
+  });
+
+  it('rewrites the same when a run of hostname characters is longer than a hostname can be', async () => {
+    const run = 'a'.repeat(1000);
+    const body = Buffer.from(`${run}.roblox.com ${run} www.roblox.com`);
+
+    const chunks = [body.subarray(0, 400), body.subarray(400, 1200), body.subarray(1200)];
+    const rewritten = (await rewrite(chunks)).toString();
+
+    assert.strictEqual(rewritten, (await rewrite([body])).toString());
+    assert.strictEqual(rewritten, `${run}.sitetest4.robloxlabs.com ${run} www.sitetest4.robloxlabs.com`);
+  });
+
+  it('decompresses and recompresses encoded bodies', async () => {
+    const body = zlib.gzipSync('https://www.roblox.com/');
+    const axiosResponse = createAxiosResponse({ 'content-encoding': 'gzip' });
+
+    const rewritten = await rewrite([body.subarray(0, 10), body.subarray(10)], axiosResponse);
+
+    assert.strictEqual(zlib.gunzipSync(rewritten).toString(), 'https://www.sitetest4.robloxlabs.com/');
+  });
+
+  it('removes the headers that no longer match the body', async () => {
+    const axiosResponse = createAxiosResponse({ 'content-length': '10', 'content-md5': 'hash', etag: '"v1"' });
+
+    await rewrite([Buffer.from('roblox.com')], axiosResponse);
+
+    assert.strictEqual(axiosResponse.headers['content-length'], undefined);
+    assert.strictEqual(axiosResponse.headers['content-md5'], undefined);
+    assert.strictEqual(axiosResponse.headers.etag, 'W/"v1"');
+  });
+});
@@ -0,0 +1,144 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: circuit_breaker.test.ts
+    Description: Unit tests for the state changes of the circuit breaker.
+    Written by: Nikita Petko
+*/
+
+import testHelper from './test_helper';
+
+import circuitBreaker from '@lib/proxy/circuit_breaker';
+
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+
+process.env.ENABLE_CIRCUIT_BREAKER = 'true';
+process.env.CIRCUIT_BREAKER_MINIMUM_REQUESTS = '4';
+process.env.CIRCUIT_BREAKER_FAILURE_PERCENTAGE = '50';
+process.env.CIRCUIT_BREAKER_WINDOW = '10000';
+process.env.CIRCUIT_BREAKER_OPEN_DURATION = '30000';
+process.env.CIRCUIT_BREAKER_HALF_OPEN_MAX_REQUESTS = '1';
+
+// The window and open duration are measured with it, so the tests move the clock instead of waiting.
+let now = Date.now();
+Date.now = () => now;
+
+// Every request that is let through has to be recorded, like the send middleware does.
+const send = (hostname: string, succeeded: boolean): boolean => {
+  const request = testHelper.createRequest();
+
+  if (!circuitBreaker.tryAcquire(hostname, request)) return false;
+
+  if (succeeded) circuitBreaker.recordSuccess(hostname, request);
+  else circuitBreaker.recordFailure(hostname, request);
+
+  return true;
+};
+
+describe('CircuitBreaker', () => {
+  it('stays closed until the minimum amount of requests was made', () => {
+    for (let i = 0; i < 3; i++) assert.strictEqual(send('minimum.roblox.com', false), true);
+
+    assert.strictEqual(send('minimum.roblox.com', true), true);
+    assert.strictEqual(send('minimum.roblox.com', true), true);
+  });
+
+  it('opens once the failure percentage is reached', () => {
+    send('open.roblox.com', true);
+    send('open.roblox.com', true);
+    send('open.roblox.com', false);
+    send('open.roblox.com', false);
+
+    assert.strictEqual(send('open.roblox.com', true), false);
+    assert.strictEqual(circuitBreaker.getRetryAfter('open.roblox.com'), 30);
+  });
+
+  it('only counts the requests within the window', () => {
+    send('window.roblox.com', false);
+    send('window.roblox.com', false);
+    send('window.roblox.com', false);
+
+    now += 10000;
+
+    send('window.roblox.com', true);
+    send('window.roblox.com', true);
+    send('window.roblox.com', true);
+
+    assert.strictEqual(send('window.roblox.com', false), true);
+    assert.strictEqual(send('window.roblox.com', true), true);
+  });
+
+  it('lets one trial request through once half-open, and closes when it succeeds', () => {
+    for (let i = 0; i < 4; i++) send('trial.roblox.com', false);
+
+    assert.strictEqual(send('trial.roblox.com', true), false);
+
+    now += 30000;
+
+    const trial = testHelper.createRequest();
+
+    assert.strictEqual(circuitBreaker.tryAcquire('trial.roblox.com', trial), true);
+    assert.strictEqual(send('trial.roblox.com', true), false);
+
+    circuitBreaker.recordSuccess('trial.roblox.com', trial);
+
+    assert.strictEqual(send('trial.roblox.com', true), true);
+    assert.strictEqual(send('trial.roblox.com', false), true);
+  });
+
+  it('opens again when the trial request fails', () => {
+    for (let i = 0; i < 4; i++) send('reopen.roblox.com', false);
+
+    now += 30000;
+
+    assert.strictEqual(send('reopen.roblox.com', false), true);
+    assert.strictEqual(send('reopen.roblox.com', true), false);
+    assert.strictEqual(circuitBreaker.getRetryAfter('reopen.roblox.com'), 30);
+  });
+
+  it('lets another trial request through when one is released', () => {
+    for (let i = 0; i < 4; i++) send('release.roblox.com', false);
+
+    now += 30000;
+
+    const trial = testHelper.createRequest();
+
+    assert.strictEqual(circuitBreaker.tryAcquire('release.roblox.com', trial), true);
+
+    circuitBreaker.release('release.roblox.com', trial);
+
+    assert.strictEqual(send('release.roblox.com', true), true);
+  });
+
+  it('ignores a late result of a trial once the circuit was opened again', () => {
+    for (let i = 0; i < 4; i++) send('late.roblox.com', false);
+
+    now += 30000;
+
+    const trial = testHelper.createRequest();
+
+    assert.strictEqual(circuitBreaker.tryAcquire('late.roblox.com', trial), true);
+
+    // The trial is released, another one fails and opens the circuit, then the first one finishes after all.
+    circuitBreaker.release('late.roblox.com', trial);
+    send('late.roblox.com', false);
+    circuitBreaker.recordSuccess('late.roblox.com', trial);
+
+    assert.strictEqual(send('late.roblox.com', true), false);
+  });
+});
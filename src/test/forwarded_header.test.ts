@@ -0,0 +1,101 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: forwarded_header.test.ts
+    Description: Unit tests for parsing and building the Forwarded header.
+    Written by: Nikita Petko
+*/
+
+import testHelper from './test_helper';
+
+import forwardedHeader from '@lib/proxy/forwarded_header';
+
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+
+describe('ForwardedHeader', () => {
+  describe('parse', () => {
+    it('parses every element in the order the proxies added them', () => {
+      assert.deepStrictEqual(
+        forwardedHeader.parse('for=192.0.2.43, For="[2001:db8:cafe::17]:4711";proto=https;HOST=www.roblox.com'),
+        [{ for: '192.0.2.43' }, { for: '[2001:db8:cafe::17]:4711', proto: 'https', host: 'www.roblox.com' }],
+      );
+    });
+
+    it('joins multiple headers into one list', () => {
+      assert.deepStrictEqual(forwardedHeader.parse(['for=192.0.2.43', 'for=198.51.100.17;by=unknown']), [
+        { for: '192.0.2.43' },
+        { for: '198.51.100.17', by: 'unknown' },
+      ]);
+    });
+
+    it('unescapes quoted values, including separators within them', () => {
+      assert.deepStrictEqual(forwardedHeader.parse('for="_a\\"b";host="a,b;c"'), [{ for: '_a"b', host: 'a,b;c' }]);
+    });
+
+    it('ignores unknown parameters', () => {
+      assert.deepStrictEqual(forwardedHeader.parse('for=192.0.2.43;secret=abc'), [{ for: '192.0.2.43' }]);
+    });
+
+    it('rejects the whole header when it is malformed', () => {
+      assert.deepStrictEqual(forwardedHeader.parse('for=192.0.2.43;for=198.51.100.17'), []);
+      assert.deepStrictEqual(forwardedHeader.parse('for="192.0.2.43'), []);
+      assert.deepStrictEqual(forwardedHeader.parse('for=192.0.2.43, [::1]'), []);
+      assert.deepStrictEqual(forwardedHeader.parse(undefined), []);
+    });
+  });
+
+  describe('getNodeAddress', () => {
+    it('strips the port from the address', () => {
+      assert.strictEqual(forwardedHeader.getNodeAddress('192.0.2.43'), '192.0.2.43');
+      assert.strictEqual(forwardedHeader.getNodeAddress('192.0.2.43:47011'), '192.0.2.43');
+      assert.strictEqual(forwardedHeader.getNodeAddress('[2001:db8:cafe::17]'), '2001:db8:cafe::17');
+      assert.strictEqual(forwardedHeader.getNodeAddress('[2001:db8:cafe::17]:4711'), '2001:db8:cafe::17');
+    });
+
+    it('has no address for unknown, obfuscated or malformed nodes', () => {
+      assert.strictEqual(forwardedHeader.getNodeAddress('unknown'), undefined);
+      assert.strictEqual(forwardedHeader.getNodeAddress('_hidden'), undefined);
+      assert.strictEqual(forwardedHeader.getNodeAddress('[2001:db8:cafe::17'), undefined);
+      assert.strictEqual(forwardedHeader.getNodeAddress('2001:db8:cafe::17'), undefined);
+      assert.strictEqual(forwardedHeader.getNodeAddress(''), undefined);
+    });
+  });
+
+  describe('append', () => {
+    const request = testHelper.createRequest({
+      ip: '2001:db8:cafe::17',
+      realIp: '10.0.0.2',
+      protocol: 'http',
+      headers: { host: 'www.roblox.com:8080' },
+    });
+
+    it('identifies the client when there is no Forwarded header yet, quoting what is not a token', () => {
+      assert.strictEqual(
+        forwardedHeader.append(undefined, request),
+        'for="[2001:db8:cafe::17]";host="www.roblox.com:8080";proto=http',
+      );
+    });
+
+    it('identifies the proxy that sent the request when there is a Forwarded header', () => {
+      assert.strictEqual(
+        forwardedHeader.append(['for=192.0.2.43', 'for=198.51.100.17'], request),
+        'for=192.0.2.43, for=198.51.100.17, for=10.0.0.2;host="www.roblox.com:8080";proto=http',
+      );
+    });
+  });
+});
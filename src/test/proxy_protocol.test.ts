@@ -0,0 +1,156 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: proxy_protocol.test.ts
+    Description: Unit tests for parsing PROXY protocol v1 and v2 headers.
+    Written by: Nikita Petko
+*/
+
+import './test_helper';
+
+import proxyProtocol from '@lib/setup/utility/proxy_protocol';
+
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+
+const v2Signature = Buffer.from([0x0d, 0x0a, 0x0d, 0x0a, 0x00, 0x0d, 0x0a, 0x51, 0x55, 0x49, 0x54, 0x0a]);
+
+// The addresses are followed by the ports, the payload is anything after them, e.g. TLVs.
+const createV2Header = (versionAndCommand: number, family: number, payload: Buffer): Buffer => {
+  const length = Buffer.alloc(2);
+  length.writeUInt16BE(payload.length);
+
+  return Buffer.concat([v2Signature, Buffer.from([versionAndCommand, family]), length, payload]);
+};
+
+const createIPv4Payload = (source: number[], sourcePort: number): Buffer => {
+  const payload = Buffer.alloc(12);
+
+  Buffer.from(source).copy(payload, 0);
+  Buffer.from([198, 51, 100, 1]).copy(payload, 4);
+  payload.writeUInt16BE(sourcePort, 8);
+  payload.writeUInt16BE(443, 10);
+
+  return payload;
+};
+
+const createIPv6Payload = (source: number[], sourcePort: number): Buffer => {
+  const payload = Buffer.alloc(36);
+
+  for (let i = 0; i < 8; i++) payload.writeUInt16BE(source[i], i * 2);
+
+  payload.writeUInt16BE(1, 30);
+  payload.writeUInt16BE(sourcePort, 32);
+  payload.writeUInt16BE(443, 34);
+
+  return payload;
+};
+
+describe('ProxyProtocol', () => {
+  describe('v1', () => {
+    it('parses the client of a TCP4 and TCP6 connection', () => {
+      assert.deepStrictEqual(proxyProtocol.parse(Buffer.from('PROXY TCP4 192.0.2.43 198.51.100.1 56324 443\r\n')), {
+        length: 46,
+        address: '192.0.2.43',
+        port: 56324,
+        family: 'IPv4',
+      });
+
+      assert.deepStrictEqual(proxyProtocol.parse(Buffer.from('PROXY TCP6 2001:db8::17 2001:db8::1 4711 443\r\n')), {
+        length: 46,
+        address: '2001:db8::17',
+        port: 4711,
+        family: 'IPv6',
+      });
+    });
+
+    it('only counts the header, not the data after it', () => {
+      const header = proxyProtocol.parse(Buffer.from('PROXY UNKNOWN\r\nGET / HTTP/1.1\r\n\r\n'));
+
+      assert.deepStrictEqual(header, { length: 15 });
+    });
+
+    it('needs more data until the header is complete', () => {
+      assert.strictEqual(proxyProtocol.parse(Buffer.from('PRO')), undefined);
+      assert.strictEqual(proxyProtocol.parse(Buffer.from('PROXY TCP4 192.0.2.43')), undefined);
+    });
+
+    it('rejects headers that are too long, or have an invalid protocol, address or port', () => {
+      assert.throws(() => proxyProtocol.parse(Buffer.from(`PROXY ${'A'.repeat(101)}`)), /too long/);
+      assert.throws(() => proxyProtocol.parse(Buffer.from('PROXY UDP4 192.0.2.43 198.51.100.1 1 2\r\n')), /invalid/);
+      assert.throws(() => proxyProtocol.parse(Buffer.from('PROXY TCP4 2001:db8::17 2001:db8::1 1 2\r\n')), /invalid/);
+      assert.throws(() => proxyProtocol.parse(Buffer.from('PROXY TCP4 192.0.2.43 198.51.100.1 65536 2\r\n')), /port/);
+    });
+  });
+
+  describe('v2', () => {
+    it('parses the client of a TCP over IPv4 connection', () => {
+      const header = createV2Header(0x21, 0x11, createIPv4Payload([192, 0, 2, 43], 56324));
+
+      assert.deepStrictEqual(proxyProtocol.parse(header), {
+        length: 28,
+        address: '192.0.2.43',
+        port: 56324,
+        family: 'IPv4',
+      });
+    });
+
+    it('parses the client of a TCP over IPv6 connection, compressing the address like node does', () => {
+      const parse = (source: number[]) =>
+        proxyProtocol.parse(createV2Header(0x21, 0x21, createIPv6Payload(source, 4711))).address;
+
+      assert.strictEqual(parse([0x2001, 0xdb8, 0, 0, 0, 0, 0, 0x17]), '2001:db8::17');
+      assert.strictEqual(parse([0x2001, 0xdb8, 0, 0, 1, 0, 0, 1]), '2001:db8::1:0:0:1');
+      assert.strictEqual(parse([0x2001, 0xdb8, 0, 1, 0, 0, 0, 1]), '2001:db8:0:1::1');
+      assert.strictEqual(parse([0, 0, 0, 0, 0, 0, 0, 1]), '::1');
+      assert.strictEqual(parse([0xfe80, 0, 0, 0, 0, 0, 0, 0]), 'fe80::');
+      assert.strictEqual(parse([0x2001, 0xdb8, 1, 2, 3, 4, 5, 6]), '2001:db8:1:2:3:4:5:6');
+    });
+
+    it('includes the TLVs after the addresses in the length', () => {
+      const payload = Buffer.concat([createIPv4Payload([192, 0, 2, 43], 56324), Buffer.from([0x04, 0x00, 0x01, 0x00])]);
+
+      assert.strictEqual(proxyProtocol.parse(createV2Header(0x21, 0x11, payload)).length, 32);
+    });
+
+    it('uses the connection as is for LOCAL commands and other address families', () => {
+      assert.deepStrictEqual(proxyProtocol.parse(createV2Header(0x20, 0x00, Buffer.alloc(0))), { length: 16 });
+      assert.deepStrictEqual(proxyProtocol.parse(createV2Header(0x21, 0x12, createIPv4Payload([192, 0, 2, 43], 53))), {
+        length: 28,
+      });
+    });
+
+    it('needs more data until the header is complete', () => {
+      const header = createV2Header(0x21, 0x11, createIPv4Payload([192, 0, 2, 43], 56324));
+
+      for (let length = 1; length < header.length; length++) {
+        assert.strictEqual(proxyProtocol.parse(header.subarray(0, length)), undefined, `${length} bytes`);
+      }
+    });
+
+    it('rejects unsupported versions and commands, and truncated addresses', () => {
+      assert.throws(() => proxyProtocol.parse(createV2Header(0x11, 0x11, Buffer.alloc(12))), /version/);
+      assert.throws(() => proxyProtocol.parse(createV2Header(0x22, 0x11, Buffer.alloc(12))), /command/);
+      assert.throws(() => proxyProtocol.parse(createV2Header(0x21, 0x11, Buffer.alloc(8))), /truncated/);
+      assert.throws(() => proxyProtocol.parse(createV2Header(0x21, 0x21, Buffer.alloc(12))), /truncated/);
+    });
+  });
+
+  it('rejects connections that do not start with a header', () => {
+    assert.throws(() => proxyProtocol.parse(Buffer.from('GET / HTTP/1.1\r\n')), /did not start/);
+  });
+});
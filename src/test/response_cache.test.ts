@@ -0,0 +1,268 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: response_cache.test.ts
+    Description: Unit tests for the freshness, storage and invalidation rules of the response cache.
+    Written by: Nikita Petko
+*/
+
+/* eslint-disable @typescript-eslint/naming-convention */
+
+import testHelper from './test_helper';
+
+import responseCache from '@lib/cache';
+import cacheEntry from '@lib/cache/cache_entry';
+import { CacheFreshness } from '@lib/cache/cache_freshness';
+import responseCacheMiddleware from '@lib/middleware/response_cache_middleware';
+
+import * as assert from 'assert';
+import { EventEmitter, once } from 'events';
+import { AxiosResponse } from 'axios';
+import { Request, Response } from 'express';
+import { describe, it } from 'node:test';
+
+process.env.ENABLE_RESPONSE_CACHE = 'true';
+process.env.RESPONSE_CACHE_HOSTNAMES = '*';
+process.env.RESPONSE_CACHE_DISK_MAX_SIZE = '0';
+
+// Ages are measured with it, so the tests move the clock instead of waiting.
+let now = Date.now();
+Date.now = () => now;
+
+const createEntry = (properties: Partial<cacheEntry> = {}): cacheEntry => ({
+  key: 'https://www.roblox.com/',
+  primaryKey: 'https://www.roblox.com/',
+  status: 200,
+  headers: {},
+  body: Buffer.alloc(0),
+  responseTime: now,
+  vary: [],
+  initialAge: 0,
+  freshnessLifetime: 60,
+  staleWhileRevalidate: 0,
+  staleIfError: 0,
+  mustRevalidate: false,
+  ...properties,
+});
+
+const createRequest = (properties: Record<string, unknown> = {}): Request => {
+  const request = testHelper.createRequest({ hostname: 'www.roblox.com', ...properties });
+
+  request.headers.host = 'www.roblox.com';
+  request.context.set('hostname', 'www.roblox.com');
+
+  return request;
+};
+
+const createAxiosResponse = (headers: Record<string, string>, status = 200): AxiosResponse =>
+  ({ status, headers: { date: new Date(now).toUTCString(), ...headers } } as unknown as AxiosResponse);
+
+const getPolicy = (headers: Record<string, string>, request = createRequest()) => {
+  // As if it went through the middleware.
+  request.context.set('responseCache', { entry: undefined, conditional: false });
+
+  return responseCache.getStoragePolicy(request, createAxiosResponse(headers));
+};
+
+// Goes through the middleware like a request would, so it's looked up first, and stores the response to it.
+const store = async (url: string): Promise<void> => {
+  const request = createRequest({ originalUrl: url });
+
+  await responseCacheMiddleware.invoke(request, new EventEmitter() as unknown as Response, () => undefined);
+
+  const axiosResponse = createAxiosResponse({ 'cache-control': 'max-age=60' });
+
+  const capture = responseCache.capture(responseCache.getStoragePolicy(request, axiosResponse), axiosResponse, request);
+
+  capture.resume();
+  capture.end('body');
+
+  await once(capture, 'finish');
+};
+
+// Goes through the middleware like a request would, and finishes the response with the status code.
+const send = async (properties: Record<string, unknown>, statusCode: number): Promise<void> => {
+  const response = Object.assign(new EventEmitter(), { statusCode }) as unknown as Response;
+
+  await responseCacheMiddleware.invoke(createRequest(properties), response, () => undefined);
+
+  response.emit('finish');
+};
+
+describe('ResponseCache', () => {
+  describe('getFreshness', () => {
+    it('is fresh within the freshness lifetime and stale after it', () => {
+      const entry = createEntry();
+
+      assert.strictEqual(responseCache.getFreshness(entry, createRequest()), CacheFreshness.Fresh);
+
+      now += 61000;
+
+      assert.strictEqual(responseCache.getFreshness(entry, createRequest()), CacheFreshness.Stale);
+    });
+
+    it('counts the age the response already had when it was received', () => {
+      const entry = createEntry({ initialAge: 59 });
+
+      now += 2000;
+
+      assert.strictEqual(responseCache.getFreshness(entry, createRequest()), CacheFreshness.Stale);
+    });
+
+    it('is stale when the request has no-cache, either as a directive or a pragma', () => {
+      const entry = createEntry();
+
+      const noCache = createRequest({ headers: { 'cache-control': 'no-cache' } });
+      const pragma = createRequest({ headers: { pragma: 'no-cache' } });
+      const both = createRequest({ headers: { 'cache-control': 'max-age=60', pragma: 'no-cache' } });
+
+      assert.strictEqual(responseCache.getFreshness(entry, noCache), CacheFreshness.Stale);
+      assert.strictEqual(responseCache.getFreshness(entry, pragma), CacheFreshness.Stale);
+
+      // Pragma is ignored when there is a Cache-Control header.
+      assert.strictEqual(responseCache.getFreshness(entry, both), CacheFreshness.Fresh);
+    });
+
+    it('honors the max-age and min-fresh of the request', () => {
+      const entry = createEntry({ initialAge: 20 });
+
+      const maxAge = createRequest({ headers: { 'cache-control': 'max-age=10' } });
+      const minFresh = createRequest({ headers: { 'cache-control': 'min-fresh=50' } });
+
+      assert.strictEqual(responseCache.getFreshness(entry, maxAge), CacheFreshness.Stale);
+      assert.strictEqual(responseCache.getFreshness(entry, minFresh), CacheFreshness.Stale);
+    });
+
+    it('serves stale responses within the max-stale of the request, unless they must be revalidated', () => {
+      const entry = createEntry({ initialAge: 70 });
+
+      const maxStale = createRequest({ headers: { 'cache-control': 'max-stale=20' } });
+      const tooStale = createRequest({ headers: { 'cache-control': 'max-stale=5' } });
+      const anyStaleness = createRequest({ headers: { 'cache-control': 'max-stale' } });
+
+      assert.strictEqual(responseCache.getFreshness(entry, maxStale), CacheFreshness.Fresh);
+      assert.strictEqual(responseCache.getFreshness(entry, tooStale), CacheFreshness.Stale);
+      assert.strictEqual(responseCache.getFreshness(entry, anyStaleness), CacheFreshness.Fresh);
+
+      const mustRevalidate = createEntry({ initialAge: 70, mustRevalidate: true });
+
+      assert.strictEqual(responseCache.getFreshness(mustRevalidate, anyStaleness), CacheFreshness.Stale);
+    });
+
+    it('revalidates in the background within stale-while-revalidate', () => {
+      const entry = createEntry({ initialAge: 70, staleWhileRevalidate: 30 });
+
+      assert.strictEqual(responseCache.getFreshness(entry, createRequest()), CacheFreshness.StaleWhileRevalidate);
+
+      now += 30000;
+
+      assert.strictEqual(responseCache.getFreshness(entry, createRequest()), CacheFreshness.Stale);
+    });
+  });
+
+  describe('getStoragePolicy', () => {
+    it('uses s-maxage over max-age over Expires', () => {
+      const expires = new Date(now + 30000).toUTCString();
+
+      assert.strictEqual(getPolicy({ 'cache-control': 's-maxage=10, max-age=20', expires }).freshnessLifetime, 10);
+      assert.strictEqual(getPolicy({ 'cache-control': 'max-age=20', expires }).freshnessLifetime, 20);
+      assert.strictEqual(getPolicy({ expires }).freshnessLifetime, 30);
+      assert.strictEqual(getPolicy({ expires: 'invalid' }).freshnessLifetime, 0);
+    });
+
+    it('uses 10% of the time since it was last modified as the heuristic freshness lifetime', () => {
+      const lastModified = new Date(now - 1000000).toUTCString();
+
+      assert.strictEqual(getPolicy({ 'last-modified': lastModified }).freshnessLifetime, 100);
+    });
+
+    it('takes the initial age from the Age header', () => {
+      assert.strictEqual(getPolicy({ 'cache-control': 'max-age=60', age: '15' }).initialAge, 15);
+    });
+
+    it('stores no-cache responses, but always revalidates them', () => {
+      const policy = getPolicy({ 'cache-control': 'no-cache, max-age=60' });
+
+      assert.strictEqual(policy.freshnessLifetime, 0);
+      assert.strictEqual(policy.mustRevalidate, true);
+    });
+
+    it('does not store responses that are private or specific to the client', () => {
+      assert.strictEqual(getPolicy({ 'cache-control': 'no-store' }), undefined);
+      assert.strictEqual(getPolicy({ 'cache-control': 'private, max-age=60' }), undefined);
+      assert.strictEqual(getPolicy({ 'cache-control': 'max-age=60', 'set-cookie': 'a=b' }), undefined);
+      assert.strictEqual(getPolicy({ 'cache-control': 'max-age=60', vary: 'Accept-Encoding, *' }), undefined);
+    });
+
+    it('only stores authorized responses the downstream explicitly allows to be shared', () => {
+      const request = createRequest({ headers: { authorization: 'Bearer token' } });
+
+      assert.strictEqual(getPolicy({ 'cache-control': 'max-age=60' }, request), undefined);
+      assert.notStrictEqual(getPolicy({ 'cache-control': 'public, max-age=60' }, request), undefined);
+    });
+
+    it('does not store responses without freshness or validators', () => {
+      assert.strictEqual(getPolicy({}), undefined);
+      assert.notStrictEqual(getPolicy({ etag: '"v1"' }), undefined);
+    });
+
+    it('only stores responses to GET requests with a storable status', () => {
+      const axiosResponse = createAxiosResponse({ 'cache-control': 'max-age=60' }, 206);
+
+      const request = createRequest();
+
+      request.context.set('responseCache', { entry: undefined, conditional: false });
+
+      assert.strictEqual(responseCache.getStoragePolicy(request, axiosResponse), undefined);
+      assert.strictEqual(getPolicy({ 'cache-control': 'max-age=60' }, createRequest({ method: 'HEAD' })), undefined);
+    });
+
+    it('lowercases the headers the response varies on', () => {
+      assert.deepStrictEqual(getPolicy({ etag: '"v1"', vary: 'Accept-Encoding, X-Test' }).vary, [
+        'accept-encoding',
+        'x-test',
+      ]);
+    });
+  });
+
+  describe('invalidation', () => {
+    it('invalidates the stored response after a successful unsafe request', async () => {
+      await store('/unsafe');
+
+      await send({ method: 'POST', originalUrl: '/unsafe' }, 201);
+
+      assert.strictEqual(await responseCache.lookup(createRequest({ originalUrl: '/unsafe' })), undefined);
+    });
+
+    it('keeps the stored response when the unsafe request failed', async () => {
+      await store('/failed');
+
+      await send({ method: 'DELETE', originalUrl: '/failed' }, 500);
+
+      assert.notStrictEqual(await responseCache.lookup(createRequest({ originalUrl: '/failed' })), undefined);
+    });
+
+    it('keeps the stored response after a safe request that could not be served from the cache', async () => {
+      await store('/safe');
+
+      await send({ originalUrl: '/safe', headers: { range: 'bytes=0-1' } }, 206);
+      await send({ originalUrl: '/safe', headers: { 'cache-control': 'no-store' } }, 200);
+
+      assert.notStrictEqual(await responseCache.lookup(createRequest({ originalUrl: '/safe' })), undefined);
+    });
+  });
+});
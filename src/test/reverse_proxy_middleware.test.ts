@@ -0,0 +1,107 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: reverse_proxy_middleware.test.ts
+    Description: Unit tests for finding the client in the chain of proxies a request went through.
+    Written by: Nikita Petko
+*/
+
+/* eslint-disable @typescript-eslint/naming-convention */
+
+import testHelper from './test_helper';
+
+import reverseProxyMiddleware from '@lib/middleware/reverse_proxy_middleware';
+
+import * as assert from 'assert';
+import { Request, Response } from 'express';
+import { describe, it } from 'node:test';
+
+process.env.AUTHORIZED_REVERSE_PROXY_IPV4_ADDRESSES = '198.51.100.0/24';
+
+// The request comes in from nginx on the same network by default.
+const invoke = (headers: Record<string, string>, ip = '10.0.0.1'): Request => {
+  const request = testHelper.createRequest({ ip, headers, socket: { localPort: 80 } });
+
+  reverseProxyMiddleware.invoke(request, {} as Response, () => undefined);
+
+  return request;
+};
+
+describe('ReverseProxyMiddleware', () => {
+  it('only trusts the headers of trusted proxies', () => {
+    assert.strictEqual(invoke({ 'x-forwarded-for': '192.0.2.43' }, '203.0.113.9').ip, '203.0.113.9');
+    assert.strictEqual(invoke({ 'x-forwarded-for': '192.0.2.43' }).ip, '192.0.2.43');
+  });
+
+  it('walks the chain from the right, skipping trusted proxies', () => {
+    assert.strictEqual(invoke({ 'x-forwarded-for': '192.0.2.43, 198.51.100.7, 198.51.100.8' }).ip, '192.0.2.43');
+  });
+
+  it('ignores what the client put to the left of itself', () => {
+    assert.strictEqual(invoke({ 'x-forwarded-for': '10.0.0.5, 203.0.113.9, 192.0.2.43' }).ip, '192.0.2.43');
+  });
+
+  it('strips the port from hops', () => {
+    assert.strictEqual(invoke({ 'x-forwarded-for': '192.0.2.43:47011' }).ip, '192.0.2.43');
+    assert.strictEqual(invoke({ 'x-forwarded-for': '[2001:db8:cafe::17]:4711' }).ip, '2001:db8:cafe::17');
+  });
+
+  it('stops at a hop that is unknown or malformed', () => {
+    assert.strictEqual(invoke({ 'x-forwarded-for': '192.0.2.43, unknown, 198.51.100.7' }).ip, '198.51.100.7');
+    assert.strictEqual(invoke({ 'x-forwarded-for': 'garbage' }).ip, '10.0.0.1');
+  });
+
+  it('trusts at most the configured amount of hops', () => {
+    process.env.REVERSE_PROXY_MIDDLEWARE_MAX_TRUSTED_HOPS = '1';
+
+    try {
+      assert.strictEqual(invoke({ 'x-forwarded-for': '192.0.2.43, 198.51.100.8, 198.51.100.7' }).ip, '198.51.100.8');
+    } finally {
+      delete process.env.REVERSE_PROXY_MIDDLEWARE_MAX_TRUSTED_HOPS;
+    }
+  });
+
+  it('records every hop of the chain, ending with the proxy that sent the request', () => {
+    const request = invoke({ 'x-forwarded-for': '192.0.2.43, 198.51.100.7' });
+
+    assert.deepStrictEqual(request.context.get('forwardedChain'), ['192.0.2.43', '198.51.100.7', '10.0.0.1']);
+    assert.strictEqual(request.context.get('fromTrustedProxy'), true);
+  });
+
+  it('uses the Forwarded header over X-Forwarded-For when enabled', () => {
+    process.env.REVERSE_PROXY_MIDDLEWARE_USE_FORWARDED_HEADER = 'true';
+
+    try {
+      const request = invoke({
+        forwarded: 'for=192.0.2.43, for="198.51.100.7:80";proto=https',
+        'x-forwarded-for': '203.0.113.9',
+      });
+
+      assert.strictEqual(request.ip, '192.0.2.43');
+      assert.strictEqual(request.protocol, 'https');
+      assert.deepStrictEqual(request.context.get('forwardedChain'), ['192.0.2.43', '198.51.100.7:80', '10.0.0.1']);
+
+      // A malformed Forwarded header is ignored, so X-Forwarded-For is used instead.
+      assert.strictEqual(
+        invoke({ forwarded: 'for=192.0.2.43;for=192.0.2.44', 'x-forwarded-for': '203.0.113.9' }).ip,
+        '203.0.113.9',
+      );
+    } finally {
+      delete process.env.REVERSE_PROXY_MIDDLEWARE_USE_FORWARDED_HEADER;
+    }
+  });
+});
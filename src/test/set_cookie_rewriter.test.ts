@@ -0,0 +1,77 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: set_cookie_rewriter.test.ts
+    Description: Unit tests for the rewriting of Set-Cookie headers.
+    Written by: Nikita Petko
+*/
+
+import testHelper from './test_helper';
+
+import setCookieRewriter from '@lib/proxy/set_cookie_rewriter';
+
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+
+const rewrite = (header: string | string[], protocol = 'https', host = 'www.sitetest4.robloxlabs.com') =>
+  setCookieRewriter.rewrite(header, testHelper.createRequest({ protocol, headers: { host } }));
+
+describe('SetCookieRewriter', () => {
+  it('maps the domain to the test site, keeping the leading dot', () => {
+    assert.deepStrictEqual(rewrite(['a=b; Domain=.roblox.com', 'c=d; domain=auth.ROBLOX.com']), [
+      'a=b; Domain=.sitetest4.robloxlabs.com',
+      'c=d; domain=auth.sitetest4.robloxlabs.com',
+    ]);
+  });
+
+  it('leaves host-only cookies and other domains as they are', () => {
+    assert.deepStrictEqual(rewrite(['a=b; Path=/', 'c=d; Domain=example.com']), [
+      'a=b; Path=/',
+      'c=d; Domain=example.com',
+    ]);
+  });
+
+  it('leaves the domain as it is when the client is not on a test site', () => {
+    assert.deepStrictEqual(rewrite('a=b; Domain=.roblox.com', 'https', 'www.roblox.com'), ['a=b; Domain=.roblox.com']);
+  });
+
+  it('keeps the value and the other attributes as they were sent', () => {
+    const header = 'token=abc==; Expires=Wed, 21 Oct 2026 07:28:00 GMT; HttpOnly; Max-Age=3600; SameSite=Lax; Path=/';
+
+    assert.deepStrictEqual(rewrite(header), [header]);
+  });
+
+  it('removes Secure from cookies sent over http, and relaxes SameSite=None', () => {
+    assert.deepStrictEqual(rewrite('a=b; Secure; SameSite=None; HttpOnly', 'http'), ['a=b; SameSite=Lax; HttpOnly']);
+    assert.deepStrictEqual(rewrite('a=b; Secure; SameSite=Strict', 'http'), ['a=b; SameSite=Strict']);
+    assert.deepStrictEqual(rewrite('a=b; Secure; SameSite=None', 'https'), ['a=b; Secure; SameSite=None']);
+  });
+
+  it('prefixes the path when a path prefix is configured', () => {
+    process.env.SET_COOKIE_PATH_PREFIX = '/proxy/';
+
+    try {
+      assert.deepStrictEqual(rewrite(['a=b; Path=/games', 'c=d', 'e=f; Path=relative']), [
+        'a=b; Path=/proxy/games',
+        'c=d; Path=/proxy',
+        'e=f; Path=/proxy',
+      ]);
+    } finally {
+      delete process.env.SET_COOKIE_PATH_PREFIX;
+    }
+  });
+});
@@ -0,0 +1,55 @@
+/*
+   Copyright 2022 Nikita Petko <petko@vmminfra.net>
+
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+/*
+    File Name: test_helper.ts
+    Description: Shared setup for the unit tests, it has to be imported before anything from @lib.
+    Written by: Nikita Petko
+*/
+
+import '../import_handler';
+
+import requestContext from '@lib/context';
+
+import { Request } from 'express';
+
+// The tests shouldn't leave log files behind.
+process.env.LOG_TO_FILE_SYSTEM = 'false';
+
+/**
+ * Shared helpers for the unit tests.
+ */
+export default abstract class TestHelper {
+  /**
+   * Creates a request with only the properties the code under test reads.
+   * @param {Record<string, unknown>} properties The properties to set on the request, e.g. the method or headers.
+   * @returns {Request} The request.
+   */
+  public static createRequest(properties: Record<string, unknown> = {}): Request {
+    const headers = (properties.headers ?? {}) as Record<string, string>;
+
+    return {
+      method: 'GET',
+      protocol: 'https',
+      originalUrl: '/',
+      context: new requestContext(),
+      header: (name: string) => headers[name.toLowerCase()],
+      fireEvent: () => Promise.resolve(),
+      ...properties,
+      headers,
+    } as unknown as Request;
+  }
+}